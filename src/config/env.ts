@@ -1,10 +1,35 @@
 import dotenv from 'dotenv';
+import path from 'path';
 
 // Load environment variables
 dotenv.config();
 
+export type AsrBackend = 'openai' | 'local';
+export type LocalAsrMode = 'http' | 'command';
+export type LlmBackend = 'openai' | 'local';
+export type GeocoderProviderName = 'google' | 'nominatim' | 'mock';
+
+export type MatchStageName = 'fuzzy' | 'llm' | 'geocoder';
+
+/**
+ * One ASR pass of the multi-hypothesis mode; unset fields use the normal settings
+ */
+export interface AsrHypothesisSpec {
+    label: string; // As written in ASR_HYPOTHESES, e.g. "no-prompt+language=auto"
+    prompt: boolean; // Send the gazetteer prompt
+    language?: 'ar' | 'auto';
+    temperature?: number;
+    model?: string; // OpenAI backend only
+}
+
+// Passes per request are paid ASR calls; keep the fan-out small
+const MAX_ASR_HYPOTHESES = 5;
+
+const GEOCODER_PROVIDER_NAMES: GeocoderProviderName[] = ['google', 'nominatim', 'mock'];
+export const MATCH_STAGE_NAMES: MatchStageName[] = ['fuzzy', 'llm', 'geocoder'];
+
 interface Config {
-    openaiApiKey: string;
+    openaiApiKey: string | null;
     port: number;
     maxFileSize: number; // in bytes
     openaiTranscribeModel: string;
@@ -15,6 +40,50 @@ interface Config {
     savedAudioTtlSeconds: number;
     debugDownloadToken: string | null;
     googleMapsApiKey: string | null;
+    asrBackend: AsrBackend;
+    localAsrMode: LocalAsrMode;
+    localAsrUrl: string;
+    localAsrCommand: string;
+    localAsrTimeoutMs: number;
+    dataDir: string;
+    gazetteerPath: string;
+    adminToken: string | null;
+    substitutionCostsPath: string;
+    streamPartialIntervalMs: number;
+    streamPartialMinBytes: number; // New audio required before the next partial
+    streamMaxPartials: number; // Partials per stream (0: no limit)
+    asrPromptMaxTokens: number;
+    asrHypotheses: AsrHypothesisSpec[]; // Empty: a single pass with the normal settings
+    asrHallucinationGuard: boolean;
+    asrNoSpeechProb: number;
+    asrLogprobThreshold: number;
+    asrSuspectPenalty: number; // Confidence multiplier for matches from suspect transcripts
+    geocoderProviders: GeocoderProviderName[];
+    geocoderTimeoutMs: number;
+    nominatimUrl: string;
+    mockGeocoderUrl: string;
+    audioPreprocess: boolean;
+    ffmpegPath: string;
+    audioMinDurationMs: number;
+    audioMinSpeechMs: number;
+    audioSilenceThresholdDb: number;
+    llmBackend: LlmBackend;
+    llmModel: string;
+    localLlmUrl: string;
+    localLlmApiKey: string | null;
+    llmTimeoutMs: number;
+    llmMaxRetries: number;
+    llmShortlistSize: number;
+    matchStages: MatchStageName[]; // Enabled stages, in the order they run
+    matchFuzzyThreshold: number;
+    matchLlmThreshold: number;
+    matchGeocoderConfidence: number;
+    cacheEnabled: boolean;
+    cacheMaxEntries: number;
+    cacheAsrTtlSeconds: number;
+    cacheMatchTtlSeconds: number;
+    cachePersist: boolean;
+    cacheDir: string;
 }
 
 function parseBoolean(envValue: string | undefined, defaultValue: boolean): boolean {
@@ -30,15 +99,175 @@ function parseBoolean(envValue: string | undefined, defaultValue: boolean): bool
             : defaultValue;
 }
 
+/**
+ * Parse a score in [0, 1], failing loudly on anything else
+ */
+function parseScore(name: string, defaultValue: number): number {
+    const raw = process.env[name]?.trim();
+    if (!raw) {
+        return defaultValue;
+    }
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value < 0 || value > 1) {
+        throw new Error(`${name} must be a number between 0 and 1 (got "${raw}").`);
+    }
+    return value;
+}
+
+/**
+ * Parse ASR_HYPOTHESES: comma-separated passes, each "default" or modifiers joined
+ * with "+": no-prompt, language=ar|auto, temperature=<0..1>, model=<name>
+ */
+function parseAsrHypotheses(raw: string | undefined): AsrHypothesisSpec[] {
+    const labels = (raw ?? '').split(',').map(label => label.trim().toLowerCase()).filter(Boolean);
+    if (labels.length > MAX_ASR_HYPOTHESES) {
+        throw new Error(`ASR_HYPOTHESES may list at most ${MAX_ASR_HYPOTHESES} passes (got ${labels.length}).`);
+    }
+    if (new Set(labels).size !== labels.length) {
+        throw new Error(`ASR_HYPOTHESES lists a pass more than once ("${labels.join(',')}").`);
+    }
+
+    return labels.map((label) => {
+        const spec: AsrHypothesisSpec = { label, prompt: true };
+        for (const modifier of label.split('+').map(part => part.trim())) {
+            const [key, value] = modifier.split('=');
+            if (modifier === 'default') {
+                continue;
+            } else if (modifier === 'no-prompt') {
+                spec.prompt = false;
+            } else if (key === 'language' && (value === 'ar' || value === 'auto')) {
+                spec.language = value;
+            } else if (key === 'temperature' && value && Number(value) >= 0 && Number(value) <= 1) {
+                spec.temperature = Number(value);
+            } else if (key === 'model' && value) {
+                spec.model = value;
+            } else {
+                throw new Error(
+                    `ASR_HYPOTHESES: unknown modifier "${modifier}" in "${label}" ` +
+                    '(expected default, no-prompt, language=ar|auto, temperature=<0..1> or model=<name>).'
+                );
+            }
+        }
+        return spec;
+    });
+}
+
 function validateEnv(): Config {
-    const openaiApiKey = process.env.OPENAI_API_KEY;
+    const openaiApiKey = process.env.OPENAI_API_KEY?.trim() || null;
+
+    const asrBackendRaw = process.env.ASR_BACKEND?.trim().toLowerCase() || 'openai';
+    if (asrBackendRaw !== 'openai' && asrBackendRaw !== 'local') {
+        throw new Error(`ASR_BACKEND must be "openai" or "local" (got "${asrBackendRaw}").`);
+    }
+    const asrBackend: AsrBackend = asrBackendRaw;
 
-    if (!openaiApiKey) {
+    // The OpenAI key is only mandatory when transcription goes through OpenAI;
+    // with a local backend the service can run fully offline (LLM fallback disabled).
+    if (!openaiApiKey && asrBackend === 'openai') {
         throw new Error(
-            'OPENAI_API_KEY is not set. Please add it to your .env file.'
+            'OPENAI_API_KEY is not set. Please add it to your .env file (or set ASR_BACKEND=local).'
         );
     }
 
+    const localAsrModeRaw = process.env.LOCAL_ASR_MODE?.trim().toLowerCase() || 'http';
+    if (localAsrModeRaw !== 'http' && localAsrModeRaw !== 'command') {
+        throw new Error(`LOCAL_ASR_MODE must be "http" or "command" (got "${localAsrModeRaw}").`);
+    }
+    const localAsrMode: LocalAsrMode = localAsrModeRaw;
+    const localAsrUrl = process.env.LOCAL_ASR_URL?.trim() || 'http://127.0.0.1:8080/inference';
+    const localAsrCommand = process.env.LOCAL_ASR_COMMAND?.trim() || '';
+    const localAsrTimeoutMs = parseInt(process.env.LOCAL_ASR_TIMEOUT_MS || '120000', 10);
+
+    const dataDir = path.resolve(process.env.DATA_DIR?.trim() || 'data');
+    const gazetteerPath = path.resolve(process.env.GAZETTEER_PATH?.trim() || path.join(dataDir, 'gazetteer.json'));
+    const adminToken = process.env.ADMIN_TOKEN?.trim() || null;
+    const substitutionCostsPath = path.resolve(
+        process.env.SUBSTITUTION_COSTS_PATH?.trim() || path.join(dataDir, 'substitution-costs.json')
+    );
+
+    const streamPartialIntervalMs = parseInt(process.env.STREAM_PARTIAL_INTERVAL_MS || '1500', 10);
+    const streamPartialMinBytes = parseInt(process.env.STREAM_PARTIAL_MIN_BYTES || '8000', 10);
+    const streamMaxPartials = parseInt(process.env.STREAM_MAX_PARTIALS || '20', 10);
+
+    // Whisper keeps only the last 224 tokens of a prompt
+    const asrPromptMaxTokens = parseInt(process.env.ASR_PROMPT_MAX_TOKENS || '224', 10);
+
+    // Multi-hypothesis mode: several ASR passes per recording, fused by the matcher
+    const asrHypotheses = parseAsrHypotheses(process.env.ASR_HYPOTHESES);
+
+    // Hallucination check on transcripts (prompt echo, loops, boilerplate, silent segments)
+    const asrHallucinationGuard = parseBoolean(process.env.ASR_HALLUCINATION_GUARD, true);
+    const asrNoSpeechProb = parseScore('ASR_NO_SPEECH_PROB', 0.6);
+    const asrLogprobThreshold = parseFloat(process.env.ASR_LOGPROB_THRESHOLD || '-1');
+    const asrSuspectPenalty = parseScore('ASR_SUSPECT_PENALTY', 0.8);
+
+    // External geocoders, tried in order when a destination is not in the gazetteer
+    const geocoderProviders = (process.env.GEOCODER_PROVIDERS ?? 'google')
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(Boolean);
+    const unknownProvider = geocoderProviders.find(
+        name => !GEOCODER_PROVIDER_NAMES.includes(name as GeocoderProviderName)
+    );
+    if (unknownProvider) {
+        throw new Error(
+            `GEOCODER_PROVIDERS entries must be one of ${GEOCODER_PROVIDER_NAMES.join(', ')} (got "${unknownProvider}").`
+        );
+    }
+    const geocoderTimeoutMs = parseInt(process.env.GEOCODER_TIMEOUT_MS || '5000', 10);
+    const nominatimUrl = process.env.NOMINATIM_URL?.trim() || 'https://nominatim.openstreetmap.org/search';
+    const mockGeocoderUrl = process.env.MOCK_GEOCODER_URL?.trim() || 'http://127.0.0.1:8090/search';
+
+    // Audio preprocessing before transcription (decode, 16 kHz mono, trim, speech check)
+    const audioPreprocess = parseBoolean(process.env.AUDIO_PREPROCESS, true);
+    const ffmpegPath = process.env.FFMPEG_PATH?.trim() || 'ffmpeg';
+    const audioMinDurationMs = parseInt(process.env.AUDIO_MIN_DURATION_MS || '300', 10);
+    const audioMinSpeechMs = parseInt(process.env.AUDIO_MIN_SPEECH_MS || '200', 10);
+    const audioSilenceThresholdDb = parseFloat(process.env.AUDIO_SILENCE_THRESHOLD_DB || '-40');
+
+    // LLM used by the llm matching stage: OpenAI, or an OpenAI-compatible local server
+    const llmBackendRaw = process.env.LLM_BACKEND?.trim().toLowerCase() || 'openai';
+    if (llmBackendRaw !== 'openai' && llmBackendRaw !== 'local') {
+        throw new Error(`LLM_BACKEND must be "openai" or "local" (got "${llmBackendRaw}").`);
+    }
+    const llmBackend: LlmBackend = llmBackendRaw;
+    const llmModel = process.env.LLM_MODEL?.trim() || (llmBackend === 'openai' ? 'gpt-4o-mini' : '');
+    const localLlmUrl = (process.env.LOCAL_LLM_URL?.trim() || 'http://127.0.0.1:11434/v1').replace(/\/+$/, '');
+    const localLlmApiKey = process.env.LOCAL_LLM_API_KEY?.trim() || null;
+    const llmTimeoutMs = parseInt(process.env.LLM_TIMEOUT_MS || '15000', 10);
+    const llmMaxRetries = parseInt(process.env.LLM_MAX_RETRIES || '2', 10);
+    const llmShortlistSize = parseInt(process.env.LLM_SHORTLIST_SIZE || '15', 10);
+
+    // Matching stages: MATCH_STAGES sets the order, the *_ENABLED flags switch single stages off
+    const stageOrder = (process.env.MATCH_STAGES ?? MATCH_STAGE_NAMES.join(','))
+        .split(',')
+        .map(name => name.trim().toLowerCase())
+        .filter(Boolean);
+    const unknownStage = stageOrder.find(name => !MATCH_STAGE_NAMES.includes(name as MatchStageName));
+    if (unknownStage) {
+        throw new Error(`MATCH_STAGES entries must be one of ${MATCH_STAGE_NAMES.join(', ')} (got "${unknownStage}").`);
+    }
+    if (new Set(stageOrder).size !== stageOrder.length) {
+        throw new Error(`MATCH_STAGES lists a stage more than once ("${stageOrder.join(',')}").`);
+    }
+    const stageEnabled: Record<MatchStageName, boolean> = {
+        fuzzy: parseBoolean(process.env.MATCH_FUZZY_ENABLED, true),
+        llm: parseBoolean(process.env.MATCH_LLM_ENABLED, true),
+        geocoder: parseBoolean(process.env.MATCH_GEOCODER_ENABLED, true),
+    };
+    const matchStages = (stageOrder as MatchStageName[]).filter(name => stageEnabled[name]);
+    const matchFuzzyThreshold = parseScore('MATCH_FUZZY_THRESHOLD', 0.8);
+    const matchLlmThreshold = parseScore('MATCH_LLM_THRESHOLD', 0.85);
+    const matchGeocoderConfidence = parseScore('MATCH_GEOCODER_CONFIDENCE', 0.7);
+
+    // Response caches (per cache: ASR transcripts, match results)
+    const cacheEnabled = parseBoolean(process.env.CACHE_ENABLED, true);
+    const cacheMaxEntries = parseInt(process.env.CACHE_MAX_ENTRIES || '1000', 10);
+    const cacheAsrTtlSeconds = parseInt(process.env.CACHE_ASR_TTL_SECONDS || '86400', 10);
+    const cacheMatchTtlSeconds = parseInt(process.env.CACHE_MATCH_TTL_SECONDS || '3600', 10);
+    const cachePersist = parseBoolean(process.env.CACHE_PERSIST, false);
+    const cacheDir = path.resolve(process.env.CACHE_DIR?.trim() || path.join(dataDir, 'cache'));
+
     const port = parseInt(process.env.PORT || '3000', 10);
     const maxFileSize = parseInt(process.env.MAX_FILE_SIZE || '26214400', 10); // 25MB default
 
@@ -69,6 +298,50 @@ function validateEnv(): Config {
         savedAudioTtlSeconds: Number.isFinite(savedAudioTtlSeconds) ? savedAudioTtlSeconds : 3600,
         debugDownloadToken,
         googleMapsApiKey,
+        asrBackend,
+        localAsrMode,
+        localAsrUrl,
+        localAsrCommand,
+        localAsrTimeoutMs: Number.isFinite(localAsrTimeoutMs) ? localAsrTimeoutMs : 120000,
+        dataDir,
+        gazetteerPath,
+        adminToken,
+        substitutionCostsPath,
+        streamPartialIntervalMs: Number.isFinite(streamPartialIntervalMs) ? streamPartialIntervalMs : 1500,
+        streamPartialMinBytes: Number.isFinite(streamPartialMinBytes) ? streamPartialMinBytes : 8000,
+        streamMaxPartials: Number.isFinite(streamMaxPartials) ? streamMaxPartials : 20,
+        asrPromptMaxTokens: Number.isFinite(asrPromptMaxTokens) ? asrPromptMaxTokens : 224,
+        asrHypotheses,
+        asrHallucinationGuard,
+        asrNoSpeechProb,
+        asrLogprobThreshold: Number.isFinite(asrLogprobThreshold) ? asrLogprobThreshold : -1,
+        asrSuspectPenalty,
+        geocoderProviders: geocoderProviders as GeocoderProviderName[],
+        geocoderTimeoutMs: Number.isFinite(geocoderTimeoutMs) ? geocoderTimeoutMs : 5000,
+        nominatimUrl,
+        mockGeocoderUrl,
+        audioPreprocess,
+        ffmpegPath,
+        audioMinDurationMs: Number.isFinite(audioMinDurationMs) ? audioMinDurationMs : 300,
+        audioMinSpeechMs: Number.isFinite(audioMinSpeechMs) ? audioMinSpeechMs : 200,
+        audioSilenceThresholdDb: Number.isFinite(audioSilenceThresholdDb) ? audioSilenceThresholdDb : -40,
+        llmBackend,
+        llmModel,
+        localLlmUrl,
+        localLlmApiKey,
+        llmTimeoutMs: Number.isFinite(llmTimeoutMs) ? llmTimeoutMs : 15000,
+        llmMaxRetries: Number.isFinite(llmMaxRetries) ? Math.max(0, llmMaxRetries) : 2,
+        llmShortlistSize: Number.isFinite(llmShortlistSize) ? Math.max(1, llmShortlistSize) : 15,
+        matchStages,
+        matchFuzzyThreshold,
+        matchLlmThreshold,
+        matchGeocoderConfidence,
+        cacheEnabled,
+        cacheMaxEntries: Number.isFinite(cacheMaxEntries) ? cacheMaxEntries : 1000,
+        cacheAsrTtlSeconds: Number.isFinite(cacheAsrTtlSeconds) ? cacheAsrTtlSeconds : 86400,
+        cacheMatchTtlSeconds: Number.isFinite(cacheMatchTtlSeconds) ? cacheMatchTtlSeconds : 3600,
+        cachePersist,
+        cacheDir,
     };
 }
 
@@ -1,209 +1,126 @@
-import OpenAI from 'openai';
-import { config } from '../config/env';
+import { config, AsrHypothesisSpec } from '../config/env';
+import { Transcriber, TranscriptionOutput } from './transcriber';
+import { createOpenAITranscriber } from './openaiTranscriber';
+import { createLocalTranscriber } from './localTranscriber';
+import { buildTranscriptionPrompt, TranscriptionHints, TranscriptionPrompt } from './asrPrompt';
+import { getPlaces } from './gazetteer';
+import { getConfirmationCounts } from './feedbackStore';
+import { createResponseCache, hashKey } from './responseCache';
+import { checkTranscript, TranscriptCheck } from './transcriptGuard';
+
+export interface Transcription {
+    hypothesis: string; // Label of the ASR pass ("default" outside multi-hypothesis mode)
+    transcript: string; // Backend output, trimmed
+    check: TranscriptCheck; // Hallucination check; `check.text` is what should be matched
+}
 
-// Initialize OpenAI client with timeout
-const openai = new OpenAI({
-    apiKey: config.openaiApiKey,
-    timeout: 60000, // 60 second timeout
-});
-// Canonical Nouakchott destinations used to guide ASR
-const DESTINATIONS: string[] = [
-    'توجنين',
-    'تيارت',
-    'لكصر',
-    'تفرغ زينة',
-    'السبخة',
-    'دار النعيم',
-    'عرفات',
-    "عنكار دارالبركة",
-    "سانكيام",
-    'Port - الميناء',
-    "مرصة كابيتال",
-    "كارفور عين الطلح",
-    "سمعة منت أجدي",
-    "فور ولد سبرو",
-    "كرفور بي أم دي",
-    "مسجد ولد أحمدو",
-    "مستشفى نواكشوط العسكري",
-    "مسجد ولد اموحود",
-    "مجمع عباد الرحمان 1",
-    "مجمع عباد الرحمان 3",
-    "بقالة الرزام ",
-    "مسجد التجانيين",
-    "وقفة صكوك",
-    'MiFiTT Institute',
-    'Royal FRIDAYS NKT',
-    'مقهى أمبريال',
-    'Maison d Hotes Jeloua',
-    'مطعم فكتوريا',
-    'Beit-Tech Plaza',
-    'Terjit Vacances',
-    "Restaurant L' Americain",
-    'مطعم MACDO',
-    'Arena',
-    'Chez pole',
-    'مطعم ومحلبة سلسبيل',
-    'مطعم ومحلبة أمير',
-    'مطعم الفرح',
-    'تسلم',
-    'Havana Grill',
-    'chez keyna',
-    'Pakistani hotel, restaurant and cafe',
-    'Villa korrigan',
-    'Restaurant badji',
-    'Restaurant Menata',
-    'مطعم أبو الجود',
-    'مطعم مانويلا',
-    'ماوراء مدريد',
-    'مطعم التوأم',
-    'كينك يحي كوفي king yahya coffee',
-    'Restaurant Cisse - مطعم سيسه',
-    'restaurant galaxyy',
-    'Classico',
-    'مطعم المطار',
-    'مطعم دمشق الفلوجه',
-    'مطعم ليالي الشام',
-    'مطعم مساحة',
-    'Bayasse',
-    'RESTAURANT SNAPPY 2',
-    'Fun city',
-    'Isselmou',
-    'Restau Parc',
-    'Restaurant Maya مطعم مايا',
-    'Restaurant Al mahata',
-    'مطعم المائدة',
-    'مطعم دومينوز',
-    'مطعم العربيRestaurant El Arabi',
-    'PIZZA WELIYA',
-    'مطعم One pizza',
-    'مطعم لندن للشوي',
-    'نوتيلا',
-    'مطعم المغرب العربي',
-    'مطعم ياسمين الشام',
-    'مطعم خليجي ستايل',
-    'مطعم الأبرار',
-    'مقهى لاس دوناس',
-    'Restaurant Atar مطعم أطار للوجبات التقليدية',
-    'Restaurant Elzhar',
-    'KHALIFA FOOD',
-    'مطعم القدس',
-    'Bouamatou Ophthalmological Hospital Foundation',
-    'Dental Mady',
-    'Clinique EL INAYA',
-    'مستشفى صداق',
-    "Service D'aide Médicale Urgentce",
-    'عيادة الرفق',
-    'عيادة الرأفة الطبية',
-    'مصحة الاطلس انواكشوط',
-    'عيادة السعادة CLINIQUE ESSAADA',
-    'عيادة الخير',
-    'مصحة الرضى Clinique Erridha',
-    'Chantier CHU de Nouakchott',
-    'ورشة بناء مستشفى الملك سلمان ومسجدجامع الرضاء',
-    'CLINIQUE ELKHAIR مصحة الخير',
-    'Clinique Ibn Khaldoun مصحة إبن خلدون',
-    'طب إيطاليا Tab Italia',
-    'Al-Saddaaqah Hospital - HA',
-    'تصفية الكلي مستشفي الصداقه',
-    'مصحة قلوب محسنة الخيرية',
-    "مصحة ودادية الجمارك CLINIQUE DE L'AMICALE DES DOUANES",
-    'CLINIQUE ESSIHA مصحة الصحة',
-    'مصحة الاقصى الطبيه',
-    'CLINIQUE NOUAKCHOTT مصحة انواكشوط',
-    'مستشفى تنسويلم',
-    'Cdt Tensweilim',
-    'مصحة الفرج',
-    'Cabinet Moubareck',
-    'طوارئ الأطفال',
-    'National Center for Orthopedics and Functional Rehabilitation - CNORF',
-    'مركز الشيخة فاطمة بنت امبارك للأم والطفل',
-    'Hôpital Cheikh Zayed',
-    'POlYCLINIQUE DE NOUAKCHOTT العيادة المجمعة بانواكشوط',
-    'عيادة الفاروق',
-    'Hospital El Farouk',
-    'Maternity and Childcare Center',
-    'Hospital Mère Et Enfant',
-    'CLINIQUE CENTER IBN ROCHD مصحة مركز ابن رشد',
-];
+// The single pass used when ASR_HYPOTHESES is not set
+const DEFAULT_HYPOTHESIS: AsrHypothesisSpec = { label: 'default', prompt: true };
 
-function buildNouakchottTranscriptionPrompt(destinations: string[]): string {
-    if (!destinations.length) {
-        return '';
-    }
+let transcriber: Transcriber | null = null;
 
-    const bulletList = destinations.map((name) => `- ${name}`).join('\n');
+// Backend output by audio content and everything else that shapes it (backend, prompt).
+// The hallucination check is cheap and re-run on hits, so config changes apply at once.
+const asrCache = createResponseCache<TranscriptionOutput>({ name: 'asr', ttlSeconds: config.cacheAsrTtlSeconds });
 
-    return [
-        'تفريغ قصير باللهجة الحسانية يذكر اسم حي في نواكشوط.',
-        'اكتب اسم الحي كما هو في هذه القائمة المعيارية:',
-        bulletList,
-        'أعد النص المسموع فقط بدون شرح إضافي.',
-    ].join('\n');
+// Part of the cache key; bumped when the cached value changes shape (persisted caches)
+const ASR_CACHE_FORMAT = 'v2';
+
+/**
+ * Get the transcriber selected by ASR_BACKEND (created on first use)
+ */
+function getTranscriber(): Transcriber {
+    if (!transcriber) {
+        transcriber = config.asrBackend === 'local'
+            ? createLocalTranscriber()
+            : createOpenAITranscriber();
+    }
+    return transcriber;
 }
 
 /**
- * Transcribe audio using OpenAI Whisper API
+ * Transcribe audio using the configured ASR backend (OpenAI Whisper API or local Whisper)
  * 
  * @param buffer - Audio file buffer
  * @param mimeType - MIME type of the audio file (e.g., 'audio/mp3', 'audio/m4a')
  * @param originalFilename - Original filename to help determine format
- * @returns Transcribed text in UTF-8
+ * @param hints - Optional request context (rider's district, expected places) that biases the prompt
+ * @param hypothesis - Settings of this pass (prompt, language, temperature, model); the configured ones by default
+ * @returns Transcribed text in UTF-8, with the result of the hallucination check
  */
 export async function transcribeAudio(
     buffer: Buffer,
     mimeType: string,
-    originalFilename?: string
-): Promise<string> {
+    originalFilename?: string,
+    hints: TranscriptionHints = {},
+    hypothesis: AsrHypothesisSpec = DEFAULT_HYPOTHESIS
+): Promise<Transcription> {
     try {
-        const selectedModel = config.openaiTranscribeModel || 'gpt-4o-transcribe';
-        const temperature = Number.isFinite(config.openaiTranscribeTemperature)
+        const backend = getTranscriber();
+        const configuredTemperature = Number.isFinite(config.openaiTranscribeTemperature)
             ? config.openaiTranscribeTemperature
             : 0;
-        const forceLanguageAr = config.openaiTranscribeForceLanguageAr !== false;
+        const temperature = hypothesis.temperature ?? configuredTemperature;
+        const forceLanguageAr = hypothesis.language
+            ? hypothesis.language === 'ar'
+            : config.openaiTranscribeForceLanguageAr !== false;
+        const model = hypothesis.model ?? config.openaiTranscribeModel;
 
-        // Convert buffer to File-like object that OpenAI SDK expects
         // We need to determine the file extension from MIME type or filename
         const extension = getExtensionFromMimeType(mimeType, originalFilename);
-        const filename = `audio.${extension}`;
 
         // For octet-stream, use the actual audio MIME type
         const actualMimeType = mimeType === 'application/octet-stream'
             ? `audio/${extension}`
             : mimeType;
 
-        // Create a File-like object from the buffer
-        const file = new File([buffer], filename, { type: actualMimeType });
-
-        const prompt = buildNouakchottTranscriptionPrompt(DESTINATIONS);
+        const places = getPlaces();
+        const transcriptionPrompt = hypothesis.prompt
+            ? buildTranscriptionPrompt(places, config.asrPromptMaxTokens, getConfirmationCounts(), hints)
+            : { text: '', places: [], estimatedTokens: 0 };
+        const { text: prompt, places: prompted, estimatedTokens } = transcriptionPrompt;
+
+        const cacheKey = [
+            ASR_CACHE_FORMAT,
+            backend.name,
+            model,
+            forceLanguageAr ? 'ar' : 'auto',
+            temperature,
+            hashKey(buffer),
+            hashKey(prompt),
+        ].join(':');
+        const cached = asrCache.get(cacheKey);
+        if (cached !== undefined) {
+            console.log(`[ASR] Cache hit for ${buffer.length} bytes: "${cached.text}"`);
+            return toTranscription(cached, transcriptionPrompt, hypothesis.label);
+        }
 
         console.log(
-            `[ASR] Preparing transcription: bytes=${buffer.length}, mime=${mimeType}, resolvedMime=${actualMimeType}, ext=${extension}, model=${selectedModel}, temperature=${temperature}, language=${forceLanguageAr ? 'ar' : 'auto'}`
+            `[ASR] Preparing transcription: bytes=${buffer.length}, mime=${mimeType}, resolvedMime=${actualMimeType}, ext=${extension}, backend=${backend.name}, hypothesis=${hypothesis.label}, temperature=${temperature}, language=${forceLanguageAr ? 'ar' : 'auto'}`
         );
         if (prompt) {
-            console.log(`[ASR] Using Nouakchott prompt with ${DESTINATIONS.length} destinations`);
-        } else {
-            console.log('[ASR] No prompt applied (destination list empty)');
+            console.log(`[ASR] Using Nouakchott prompt with ${prompted.length} of ${places.length} places (~${estimatedTokens} tokens)`);
+        } else if (hypothesis.prompt) {
+            console.log('[ASR] No prompt applied (gazetteer empty or prompt budget too small)');
         }
         console.log(`[ASR] Starting transcription at ${new Date().toISOString()}`);
 
-        // Call Whisper API with timeout
-        const response = await openai.audio.transcriptions.create({
-            file: file,
-            model: selectedModel,
+        const output = await backend.transcribe({
+            buffer,
+            mimeType: actualMimeType,
+            extension,
+            prompt,
             language: forceLanguageAr ? 'ar' : undefined,
-            response_format: 'text',
             temperature,
-            prompt: prompt || undefined,
+            model: hypothesis.model,
         });
 
         console.log(`[ASR] Transcription request completed at ${new Date().toISOString()}`);
+        console.log(`[ASR] Transcription received: "${output.text}"`);
 
-        // When response_format is 'text', the response is a string directly
-        const transcript = String(response);
-
-        console.log(`[ASR] Transcription received: "${transcript}"`);
-
-        return transcript.trim();
+        const trimmed = { ...output, text: output.text.trim() };
+        asrCache.set(cacheKey, trimmed);
+        return toTranscription(trimmed, transcriptionPrompt, hypothesis.label);
     } catch (error) {
         const name = (error as { name?: string })?.name;
         const message = (error as { message?: string })?.message;
@@ -226,6 +143,50 @@ export async function transcribeAudio(
     }
 }
 
+/**
+ * Transcribe audio once per ASR_HYPOTHESES pass, concurrently (a single default pass
+ * when it is not set). Failed passes are dropped; throws only when every pass fails.
+ *
+ * @returns Transcriptions in ASR_HYPOTHESES order
+ */
+export async function transcribeHypotheses(
+    buffer: Buffer,
+    mimeType: string,
+    originalFilename?: string,
+    hints: TranscriptionHints = {}
+): Promise<Transcription[]> {
+    const hypotheses = config.asrHypotheses.length ? config.asrHypotheses : [DEFAULT_HYPOTHESIS];
+    const settled = await Promise.allSettled(
+        hypotheses.map(hypothesis => transcribeAudio(buffer, mimeType, originalFilename, hints, hypothesis))
+    );
+
+    const transcriptions: Transcription[] = [];
+    settled.forEach((result, index) => {
+        if (result.status === 'fulfilled') {
+            transcriptions.push(result.value);
+        } else {
+            console.warn(`[ASR] Hypothesis ${hypotheses[index].label} failed:`, result.reason?.message ?? result.reason);
+        }
+    });
+
+    if (!transcriptions.length) {
+        throw (settled[0] as PromiseRejectedResult).reason;
+    }
+    return transcriptions;
+}
+
+/**
+ * Run the hallucination check on a backend output
+ */
+function toTranscription(output: TranscriptionOutput, prompt: TranscriptionPrompt, hypothesis: string): Transcription {
+    const check = checkTranscript(output.text, prompt, output.segments);
+    if (check.verdict !== 'ok') {
+        const issues = check.issues.map(issue => `${issue.code} (${issue.detail})`).join(', ');
+        console.warn(`[ASR] Transcript ${check.verdict}: ${issues}; matching "${check.text}"`);
+    }
+    return { hypothesis, transcript: output.text, check };
+}
+
 /**
  * Map MIME type to file extension for Whisper API
  */
@@ -0,0 +1,179 @@
+/**
+ * Transcription prompt built from the live gazetteer
+ *
+ * Whisper only reads the last ~224 tokens of a prompt, so sending every place name
+ * wastes most of the list. Place names are picked in priority order (per-request
+ * hints, then category, then how often riders confirmed the place) until the
+ * token budget is used up.
+ */
+import { Place } from './destinationMatcher';
+import { normalizeText } from './normalization';
+import { PlaceCategory, findParentDistrict, isDistrict } from './placeHierarchy';
+
+export interface TranscriptionHints {
+    district?: string; // Rider's district, by id or name ("تفرغ زينة", "tevragh zeina", "4")
+    placeIds?: number[]; // Places the client expects, e.g. the rider's recent destinations
+}
+
+export interface TranscriptionPrompt {
+    text: string; // Empty string when there is nothing to prompt with
+    places: Place[]; // Places named in the prompt, in order
+    estimatedTokens: number;
+}
+
+export const PROMPT_HEADER = 'تفريغ قصير باللهجة الحسانية يذكر مكانا في نواكشوط، مثل:';
+const NAME_SEPARATOR = '، ';
+
+// Lower comes first: areas riders name most, then large landmarks, then small POIs
+const CATEGORY_PRIORITY: Record<PlaceCategory, number> = {
+    district: 0,
+    neighbourhood: 1,
+    market: 2,
+    landmark: 2,
+    hospital: 2,
+    mosque: 3,
+    clinic: 3,
+    hotel: 3,
+    school: 3,
+    restaurant: 4,
+    cafe: 4,
+    shop: 4,
+    other: 5,
+};
+
+/**
+ * Conservative token count for Whisper's byte-level BPE. Arabic letters are two UTF-8
+ * bytes and rare words can split down to one token per byte, so each counts as two
+ * tokens; Latin text is about three characters per token. Overestimating only drops a
+ * few low-priority names, while underestimating would let Whisper cut the header.
+ */
+export function estimatePromptTokens(text: string): number {
+    let nonAscii = 0;
+    let ascii = 0;
+    for (const char of text) {
+        if (char.charCodeAt(0) > 0x7f) {
+            nonAscii++;
+        } else {
+            ascii++;
+        }
+    }
+    return nonAscii * 2 + Math.ceil(ascii / 3);
+}
+
+/**
+ * District named by a hint, matched by id or by any normalized variant
+ */
+function findHintedDistrict(hint: string, places: Place[]): Place | null {
+    const districts = places.filter(isDistrict);
+    const id = Number(hint);
+    if (Number.isInteger(id)) {
+        return districts.find(p => p.id === id) ?? null;
+    }
+    const normalized = normalizeText(hint);
+    return districts.find(p => p.variants.some(v => normalizeText(v) === normalized)) ?? null;
+}
+
+/**
+ * Order places for the prompt: hinted places, the hinted district and the places in
+ * it, then by category and popularity (gazetteer order breaks ties)
+ */
+function prioritizePlaces(
+    places: Place[],
+    popularity: Map<number, number>,
+    hints: TranscriptionHints
+): Place[] {
+    const hintedIds = new Set(hints.placeIds ?? []);
+    const district = hints.district ? findHintedDistrict(hints.district, places) : null;
+    if (hints.district && !district) {
+        console.log(`[ASR] Ignoring unknown district hint "${hints.district}"`);
+    }
+
+    const tier = (place: Place): number => {
+        if (hintedIds.has(place.id)) {
+            return 0;
+        }
+        if (district && (place.id === district.id || findParentDistrict(place, places)?.id === district.id)) {
+            return 1;
+        }
+        return 2;
+    };
+
+    return places
+        .map((place, index) => ({
+            place,
+            index,
+            tier: tier(place),
+            category: CATEGORY_PRIORITY[place.category ?? 'other'],
+            popularity: popularity.get(place.id) ?? 0,
+        }))
+        .sort((a, b) =>
+            a.tier - b.tier ||
+            a.category - b.category ||
+            b.popularity - a.popularity ||
+            a.index - b.index
+        )
+        .map(entry => entry.place);
+}
+
+/**
+ * Build the prompt from as many prioritized place names as fit in `maxTokens`
+ */
+export function buildTranscriptionPrompt(
+    places: Place[],
+    maxTokens: number,
+    popularity: Map<number, number> = new Map(),
+    hints: TranscriptionHints = {}
+): TranscriptionPrompt {
+    const chosen: Place[] = [];
+    const names: string[] = [];
+    const seen = new Set<string>();
+    let tokens = estimatePromptTokens(PROMPT_HEADER) + 1; // Header plus the line break
+
+    for (const place of prioritizePlaces(places, popularity, hints)) {
+        const name = place.canonicalName.trim();
+        if (!name || seen.has(name)) {
+            continue;
+        }
+        const cost = estimatePromptTokens(name) + (names.length > 0 ? estimatePromptTokens(NAME_SEPARATOR) : 0);
+        if (tokens + cost > maxTokens) {
+            // A shorter name further down may still fit
+            continue;
+        }
+        chosen.push(place);
+        names.push(name);
+        seen.add(name);
+        tokens += cost;
+    }
+
+    if (!names.length) {
+        return { text: '', places: [], estimatedTokens: 0 };
+    }
+
+    return {
+        text: `${PROMPT_HEADER}\n${names.join(NAME_SEPARATOR)}`,
+        places: chosen,
+        estimatedTokens: tokens,
+    };
+}
+
+/**
+ * Read hints from request fields: `district` (string or number) and `placeIds`
+ * (array of ids, or a comma-separated string as sent in multipart forms).
+ * Invalid values are dropped rather than failing the request.
+ */
+export function parseTranscriptionHints(fields: { district?: unknown; placeIds?: unknown } | undefined): TranscriptionHints {
+    const hints: TranscriptionHints = {};
+    const district = fields?.district;
+    if ((typeof district === 'string' && district.trim()) || typeof district === 'number') {
+        hints.district = String(district).trim();
+    }
+
+    const rawIds = typeof fields?.placeIds === 'string' ? fields.placeIds.split(',') : fields?.placeIds;
+    if (Array.isArray(rawIds)) {
+        const placeIds = rawIds.map(id => Number(id)).filter(id => Number.isInteger(id));
+        if (placeIds.length) {
+            hints.placeIds = placeIds;
+        }
+    }
+    return hints;
+}
@@ -0,0 +1,329 @@
+/**
+ * Audio preprocessing before transcription
+ *
+ * Uploads are decoded (WAV natively, other formats through ffmpeg), converted to 16 kHz
+ * mono 16-bit WAV, and trimmed of leading / trailing silence. Clips that are too short
+ * or contain no speech are rejected before they cost a transcription; Whisper tends to
+ * hallucinate text on them anyway.
+ */
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/env';
+
+export type AudioErrorCode = 'NO_SPEECH';
+
+export class AudioError extends Error {
+    constructor(
+        public readonly code: AudioErrorCode,
+        message: string,
+        public readonly durationMs: number
+    ) {
+        super(message);
+        this.name = 'AudioError';
+    }
+}
+
+export interface PreprocessedAudio {
+    buffer: Buffer;
+    mimeType: string;
+    filename: string;
+    preprocessed: boolean; // false when the audio could not be decoded and is passed on as received
+    durationMs: number | null; // Received audio
+    trimmedDurationMs: number | null; // Sent to the ASR backend, after trimming silence
+}
+
+// Sample rate Whisper works at
+const TARGET_SAMPLE_RATE = 16000;
+
+// Energy is measured over frames of this length
+const FRAME_MS = 20;
+
+// Silence kept around the speech so word edges are not clipped
+const TRIM_PADDING_MS = 200;
+
+const FFMPEG_TIMEOUT_MS = 30000;
+
+// WAVE_FORMAT_EXTENSIBLE stores the actual format in its sub-format GUID
+const WAVE_FORMAT_PCM = 1;
+const WAVE_FORMAT_IEEE_FLOAT = 3;
+const WAVE_FORMAT_EXTENSIBLE = 0xfffe;
+
+interface DecodedAudio {
+    samples: Float32Array; // Mono, in [-1, 1]
+    sampleRate: number;
+}
+
+/**
+ * Decode a RIFF/WAVE file (integer PCM of 8-32 bits or 32/64-bit float), mixed down to mono
+ * Returns null when the buffer is not a WAV file; throws for WAV encodings it cannot read
+ */
+function parseWav(buffer: Buffer): DecodedAudio | null {
+    if (buffer.length < 12 || buffer.toString('ascii', 0, 4) !== 'RIFF' || buffer.toString('ascii', 8, 12) !== 'WAVE') {
+        return null;
+    }
+
+    let format = 0;
+    let channels = 0;
+    let sampleRate = 0;
+    let bitsPerSample = 0;
+    let offset = 12;
+    while (offset + 8 <= buffer.length) {
+        const chunkId = buffer.toString('ascii', offset, offset + 4);
+        const chunkSize = buffer.readUInt32LE(offset + 4);
+        const body = offset + 8;
+
+        if (chunkId === 'fmt ' && body + 16 <= buffer.length) {
+            format = buffer.readUInt16LE(body);
+            channels = buffer.readUInt16LE(body + 2);
+            sampleRate = buffer.readUInt32LE(body + 4);
+            bitsPerSample = buffer.readUInt16LE(body + 14);
+            if (format === WAVE_FORMAT_EXTENSIBLE && chunkSize >= 26 && body + 26 <= buffer.length) {
+                format = buffer.readUInt16LE(body + 24);
+            }
+        } else if (chunkId === 'data') {
+            if (!channels || !sampleRate) {
+                throw new Error('WAV data chunk before its fmt chunk');
+            }
+            // Streamed recorders may leave the size unset: read up to the end of the buffer
+            const end = Math.min(buffer.length, body + chunkSize);
+            return { samples: readPcm(buffer.subarray(body, end), format, bitsPerSample, channels), sampleRate };
+        }
+
+        offset = body + chunkSize + (chunkSize % 2);
+    }
+
+    throw new Error('WAV file has no data chunk');
+}
+
+function readPcm(data: Buffer, format: number, bits: number, channels: number): Float32Array {
+    const bytesPerSample = bits / 8;
+    const readers: Record<string, (at: number) => number> = {
+        [`${WAVE_FORMAT_PCM}:8`]: at => (data.readUInt8(at) - 128) / 128,
+        [`${WAVE_FORMAT_PCM}:16`]: at => data.readInt16LE(at) / 32768,
+        [`${WAVE_FORMAT_PCM}:24`]: at => data.readIntLE(at, 3) / 8388608,
+        [`${WAVE_FORMAT_PCM}:32`]: at => data.readInt32LE(at) / 2147483648,
+        [`${WAVE_FORMAT_IEEE_FLOAT}:32`]: at => data.readFloatLE(at),
+        [`${WAVE_FORMAT_IEEE_FLOAT}:64`]: at => data.readDoubleLE(at),
+    };
+    const read = readers[`${format}:${bits}`];
+    if (!read) {
+        throw new Error(`Unsupported WAV encoding (format ${format}, ${bits} bits)`);
+    }
+
+    const frameBytes = bytesPerSample * channels;
+    const frames = Math.floor(data.length / frameBytes);
+    const samples = new Float32Array(frames);
+    for (let frame = 0; frame < frames; frame++) {
+        let sum = 0;
+        for (let channel = 0; channel < channels; channel++) {
+            sum += read(frame * frameBytes + channel * bytesPerSample);
+        }
+        samples[frame] = sum / channels;
+    }
+    return samples;
+}
+
+/**
+ * Decode any format ffmpeg understands to 16 kHz mono
+ * Returns null when ffmpeg is not installed
+ */
+async function decodeWithFfmpeg(buffer: Buffer, filename: string): Promise<DecodedAudio | null> {
+    // A file rather than stdin: MP4/M4A files may keep their index at the end, which needs seeking
+    const extension = path.extname(filename) || '.audio';
+    const tmpPath = path.join(os.tmpdir(), `preprocess_${Date.now()}_${crypto.randomBytes(4).toString('hex')}${extension}`);
+    await fs.writeFile(tmpPath, buffer);
+
+    const args = [
+        '-hide_banner', '-loglevel', 'error',
+        '-i', tmpPath,
+        '-f', 's16le', '-acodec', 'pcm_s16le',
+        '-ac', '1', '-ar', String(TARGET_SAMPLE_RATE),
+        'pipe:1',
+    ];
+
+    try {
+        const pcm = await new Promise<Buffer | null>((resolve, reject) => {
+            execFile(
+                config.ffmpegPath,
+                args,
+                { encoding: 'buffer', timeout: FFMPEG_TIMEOUT_MS, maxBuffer: 512 * 1024 * 1024 },
+                (error, stdout, stderr) => {
+                    if ((error as NodeJS.ErrnoException | null)?.code === 'ENOENT') {
+                        resolve(null);
+                    } else if (error) {
+                        reject(new Error(`ffmpeg failed: ${stderr.toString().trim() || error.message}`));
+                    } else {
+                        resolve(stdout);
+                    }
+                }
+            );
+        });
+        if (!pcm) {
+            return null;
+        }
+
+        const samples = new Float32Array(Math.floor(pcm.length / 2));
+        for (let i = 0; i < samples.length; i++) {
+            samples[i] = pcm.readInt16LE(i * 2) / 32768;
+        }
+        return { samples, sampleRate: TARGET_SAMPLE_RATE };
+    } finally {
+        fs.unlink(tmpPath).catch(() => undefined);
+    }
+}
+
+/**
+ * Resample mono audio: averaging over each output period when downsampling
+ * (a simple anti-aliasing filter), linear interpolation when upsampling
+ */
+function resample(samples: Float32Array, fromRate: number, toRate: number): Float32Array {
+    if (fromRate === toRate) {
+        return samples;
+    }
+
+    const ratio = fromRate / toRate;
+    const output = new Float32Array(Math.floor(samples.length / ratio));
+    for (let i = 0; i < output.length; i++) {
+        const center = i * ratio;
+        if (ratio > 1) {
+            const start = Math.max(0, Math.floor(center - ratio / 2));
+            const end = Math.min(samples.length, Math.ceil(center + ratio / 2));
+            let sum = 0;
+            for (let j = start; j < end; j++) {
+                sum += samples[j];
+            }
+            output[i] = end > start ? sum / (end - start) : 0;
+        } else {
+            const left = Math.floor(center);
+            const right = Math.min(left + 1, samples.length - 1);
+            const weight = center - left;
+            output[i] = samples[left] * (1 - weight) + samples[right] * weight;
+        }
+    }
+    return output;
+}
+
+/**
+ * Encode mono float samples as a 16-bit PCM WAV file
+ */
+function encodeWav(samples: Float32Array, sampleRate: number): Buffer {
+    const dataBytes = samples.length * 2;
+    const buffer = Buffer.alloc(44 + dataBytes);
+    buffer.write('RIFF', 0, 'ascii');
+    buffer.writeUInt32LE(36 + dataBytes, 4);
+    buffer.write('WAVE', 8, 'ascii');
+    buffer.write('fmt ', 12, 'ascii');
+    buffer.writeUInt32LE(16, 16);
+    buffer.writeUInt16LE(WAVE_FORMAT_PCM, 20);
+    buffer.writeUInt16LE(1, 22);
+    buffer.writeUInt32LE(sampleRate, 24);
+    buffer.writeUInt32LE(sampleRate * 2, 28);
+    buffer.writeUInt16LE(2, 32);
+    buffer.writeUInt16LE(16, 34);
+    buffer.write('data', 36, 'ascii');
+    buffer.writeUInt32LE(dataBytes, 40);
+    for (let i = 0; i < samples.length; i++) {
+        const value = Math.max(-1, Math.min(1, samples[i]));
+        buffer.writeInt16LE(Math.round(value * 32767), 44 + i * 2);
+    }
+    return buffer;
+}
+
+/**
+ * Find the speech in a clip: frames louder than AUDIO_SILENCE_THRESHOLD_DB (dBFS)
+ * Returns the sample range from the first to the last speech frame and the total speech time
+ */
+function detectSpeech(samples: Float32Array, sampleRate: number): { start: number; end: number; speechMs: number } {
+    const frameLength = Math.round(sampleRate * FRAME_MS / 1000);
+    let first = -1;
+    let last = -1;
+    let speechFrames = 0;
+
+    for (let frame = 0; frame * frameLength < samples.length; frame++) {
+        const start = frame * frameLength;
+        const end = Math.min(samples.length, start + frameLength);
+        let energy = 0;
+        for (let i = start; i < end; i++) {
+            energy += samples[i] * samples[i];
+        }
+        const rms = Math.sqrt(energy / (end - start));
+        const db = rms > 0 ? 20 * Math.log10(rms) : -Infinity;
+        if (db >= config.audioSilenceThresholdDb) {
+            if (first < 0) {
+                first = start;
+            }
+            last = end;
+            speechFrames++;
+        }
+    }
+
+    return first < 0
+        ? { start: 0, end: 0, speechMs: 0 }
+        : { start: first, end: last, speechMs: speechFrames * FRAME_MS };
+}
+
+function passThrough(buffer: Buffer, mimeType: string, filename: string): PreprocessedAudio {
+    return { buffer, mimeType, filename, preprocessed: false, durationMs: null, trimmedDurationMs: null };
+}
+
+/**
+ * Prepare an upload for transcription: decode, convert to 16 kHz mono, trim silence
+ *
+ * Throws an AudioError (NO_SPEECH) for clips shorter than AUDIO_MIN_DURATION_MS or with
+ * less than AUDIO_MIN_SPEECH_MS of speech. Audio that cannot be decoded (no ffmpeg, unknown
+ * format) is passed on unchanged, and the ASR backend gets the final say.
+ */
+export async function preprocessAudio(buffer: Buffer, mimeType: string, filename: string): Promise<PreprocessedAudio> {
+    if (!config.audioPreprocess) {
+        return passThrough(buffer, mimeType, filename);
+    }
+
+    let decoded: DecodedAudio | null = null;
+    try {
+        decoded = parseWav(buffer);
+    } catch (error) {
+        console.warn(`[Audio] ${error instanceof Error ? error.message : error}, trying ffmpeg`);
+    }
+    if (!decoded) {
+        try {
+            decoded = await decodeWithFfmpeg(buffer, filename);
+            if (!decoded) {
+                console.warn(`[Audio] ffmpeg not found (FFMPEG_PATH=${config.ffmpegPath}), passing ${filename} on unprocessed`);
+            }
+        } catch (error) {
+            console.warn(`[Audio] Could not decode ${filename}, passing it on unprocessed:`, error instanceof Error ? error.message : error);
+        }
+    }
+    if (!decoded) {
+        return passThrough(buffer, mimeType, filename);
+    }
+
+    const samples = resample(decoded.samples, decoded.sampleRate, TARGET_SAMPLE_RATE);
+    const durationMs = Math.round(samples.length / TARGET_SAMPLE_RATE * 1000);
+    const speech = detectSpeech(samples, TARGET_SAMPLE_RATE);
+
+    if (durationMs < config.audioMinDurationMs) {
+        throw new AudioError('NO_SPEECH', `The recording is too short (${durationMs} ms).`, durationMs);
+    }
+    if (speech.speechMs < config.audioMinSpeechMs) {
+        throw new AudioError('NO_SPEECH', 'No speech was detected in the recording.', durationMs);
+    }
+
+    const padding = Math.round(TARGET_SAMPLE_RATE * TRIM_PADDING_MS / 1000);
+    const trimmed = samples.subarray(Math.max(0, speech.start - padding), Math.min(samples.length, speech.end + padding));
+    const trimmedDurationMs = Math.round(trimmed.length / TARGET_SAMPLE_RATE * 1000);
+
+    console.log(`[Audio] ${filename}: ${durationMs} ms at ${decoded.sampleRate} Hz → ${trimmedDurationMs} ms at 16 kHz mono (${speech.speechMs} ms of speech)`);
+
+    return {
+        buffer: encodeWav(trimmed, TARGET_SAMPLE_RATE),
+        mimeType: 'audio/wav',
+        filename: `${path.basename(filename, path.extname(filename)) || 'audio'}.wav`,
+        preprocessed: true,
+        durationMs,
+        trimmedDurationMs,
+    };
+}
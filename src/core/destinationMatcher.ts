@@ -1,11 +1,21 @@
-import { normalizeText, generateNGrams } from './normalization';
+import { normalizeText, generateNGrams, findOriginalSpan } from './normalization';
 import { similarity, containsSimilarity } from './similarity';
 import { matchWithLLM } from './llmMatcher';
-import { searchGoogleMaps } from './googleMapsSearch';
+import { searchExternalPlaces, GeocodedPlace } from './geocoder';
+import { findCachedExternalPlaces, recordExternalPlaces, toGeocodedPlace } from './externalPlaceStore';
+import { config, GeocoderProviderName, MATCH_STAGE_NAMES, MatchStageName } from '../config/env';
+import { phoneticKey, hasLatin, MIN_PHONETIC_KEY_LENGTH } from './transliteration';
+import { getMatchIndex, IndexedVariant, QuerySpan } from './matchIndex';
+import { extractRelation, SpatialRelation } from './spatialRelations';
+import { PlaceCategory, findParentDistrict, isDistrict } from './placeHierarchy';
+import { GeoPoint, haversineKm } from './geo';
 
 export interface Place {
     id: number;
     canonicalName: string;
+    category?: PlaceCategory; // Treated as 'other' when missing
+    parentId?: number | null; // Enclosing district, when known
+    polygon?: Array<[number, number]> | null; // Outline as [lat, lon] vertices (districts)
     variants: string[];
     lat: number;
     lon: number;
@@ -14,148 +24,671 @@ export interface Place {
 export interface DestinationMatch {
     place: Place;
     matchedVariant: string;
+    matchedSpan?: string; // Part of the normalized transcript that matched (fuzzy / phonetic matches)
     confidence: number;
-    matchedBy?: 'fuzzy' | 'llm' | 'google'; // Track which method found the match
+    matchedBy?: 'fuzzy' | 'phonetic' | 'llm' | GeocoderProviderName; // Track which method (or geocoder) found the match
+    relation?: SpatialRelation; // Set when the destination is relative to this place ("ورا كارفور")
+    distanceKm?: number; // From the rider, when their position is known
+    source?: ExternalSource; // Set for places found by an external geocoder
 }
 
-// Minimum confidence threshold to consider a fuzzy match valid
-const CONFIDENCE_THRESHOLD = 0.80;
+export interface ExternalSource {
+    provider: GeocoderProviderName;
+    externalId: string | null;
+    formattedAddress: string | null;
+    attribution: string;
+    candidateId: string | null; // Stored candidate entry (see /api/external-places), null if not stored
+}
+
+export interface DestinationResolution {
+    match: DestinationMatch | null; // Best match, null when nothing is confident enough
+    candidates: DestinationMatch[]; // Ranked distinct places, best first
+    ambiguous: boolean; // True when the top two candidates are too close to call
+    trace?: MatchTrace; // How each stage decided, when ResolveOptions.explain is set
+}
+
+export interface ResolveOptions {
+    maxCandidates?: number;
+    fuzzyOnly?: boolean; // Skip the LLM and external geocoder fallbacks (e.g. provisional streaming matches)
+    skipGeocoder?: boolean; // Skip the external geocoder only (e.g. ASR hypotheses that may go unused)
+    location?: GeoPoint; // Rider's current position, favours nearby places among similar names
+    explain?: boolean; // Attach the stage-by-stage trace to the resolution
+    originalText?: string; // Whole transcript a stop was cut from, for the geocoder query's spelling
+}
+
+export type StageOutcome = 'accepted' | 'rejected' | 'skipped' | 'failed';
+
+export interface TracedMatch {
+    placeId: number | null; // null for external places
+    canonicalName: string;
+    matchedVariant: string;
+    matchedSpan: string | null;
+    confidence: number;
+    matchedBy: DestinationMatch['matchedBy'] | null;
+    distanceKm: number | null;
+}
+
+export interface StageTrace {
+    stage: MatchStageName;
+    outcome: StageOutcome;
+    reason: string; // Why the stage accepted, rejected or did not run
+    threshold: number | null; // Minimum confidence to accept (null for the geocoder stage)
+    durationMs: number;
+    best: TracedMatch | null; // Best result of the stage, accepted or not
+    details?: Record<string, unknown>; // Fuzzy candidates, LLM answer, geocoder source
+}
+
+export interface MatchTrace {
+    input: string; // Text that was matched (the landmark alone for relative destinations)
+    normalizedInput: string;
+    relation: { type: SpatialRelation['type']; phrase: string } | null;
+    stages: StageTrace[]; // Configured stages in order, then the disabled ones
+}
+
+// Minimum confidence for a fuzzy match (MATCH_FUZZY_THRESHOLD)
+export const CONFIDENCE_THRESHOLD = config.matchFuzzyThreshold;
+
+// Fuzzy candidates below this score are not worth offering to the rider
+const MIN_CANDIDATE_SCORE = 0.5;
+
+// The LLM shortlist reaches lower: it exists to catch what fuzzy matching scores poorly
+const SHORTLIST_MIN_SCORE = 0.3;
+
+// Default number of ranked candidates returned alongside the best match
+const DEFAULT_MAX_CANDIDATES = 5;
+
+// Top two candidates closer than this are flagged as ambiguous
+const AMBIGUITY_MARGIN = 0.05;
+
+// Cross-script phonetic matches are discounted: an identical key scores 0.9
+const PHONETIC_WEIGHT = 0.9;
+
+// A place scoring this close to the district it lies in wins over the district
+const SPECIFICITY_MARGIN = 0.1;
+
+// Distance prior: a place next to the rider gains up to LOCATION_WEIGHT in ranking,
+// decaying with distance (half of it at ~1.4 km, almost nothing across the city)
+const LOCATION_WEIGHT = 0.1;
+const LOCATION_SCALE_KM = 2;
+
+// Fuzzy candidates considered when reranking by distance
+const LOCATION_POOL_SIZE = 20;
+
+// Fuzzy candidates listed in an explain trace
+const TRACE_CANDIDATES = 5;
+
+// Id of places that come from an external geocoder rather than the gazetteer
+export const EXTERNAL_PLACE_ID = -1;
+
+// External places get MATCH_GEOCODER_CONFIDENCE, below confident fuzzy matches;
+// each further result a bit lower
+const EXTERNAL_RANK_STEP = 0.02;
+const MAX_EXTERNAL_RESULTS = 3;
+
+export interface RankOptions {
+    exhaustive?: boolean; // Score every variant without the index shortcuts (reference for benchmarks)
+    minScore?: number; // Drop places scoring below this (default MIN_CANDIDATE_SCORE)
+}
 
 /**
- * Resolve a destination from a transcript using hybrid matching with Google Maps fallback
- * 
- * Strategy:
- * 1. Try fuzzy matching first (fast, free) - requires confidence >= 0.75
- * 2. If confidence < threshold, fallback to LLM (slower, smarter) - requires confidence >= 0.85
- * 3. If no match found in local list, try Google Maps search (external places)
+ * Score one gazetteer variant against a normalized transcript
+ *
+ * @param floor - Scores below this are not needed exactly (the place already has a
+ * better variant, or the candidate would be dropped anyway)
  */
-export async function resolveDestination(
-    transcript: string,
-    places: Place[]
-): Promise<DestinationMatch | null> {
-    if (!transcript || places.length === 0) {
-        return null;
+function scoreVariant(
+    normalizedTranscript: string,
+    candidateSpans: QuerySpan[],
+    entry: IndexedVariant,
+    floor: number
+): DestinationMatch {
+    // Strategy 1: Try exact or near-exact match with each candidate span
+    let textScore = 0;
+    let textSpan = '';
+    for (const span of candidateSpans) {
+        const spanScore = similarity(span.text, entry.normalized, floor);
+        if (spanScore > textScore) {
+            textScore = spanScore;
+            textSpan = span.text;
+        }
     }
 
-    // Normalize the transcript
-    const normalizedTranscript = normalizeText(transcript);
+    // Strategy 2: Check if the variant is contained in the transcript
+    // This helps with cases like "نبغي نمشي توجنين" where "توجنين" is embedded
+    const embeddedScore = containsSimilarity(normalizedTranscript, entry.normalized);
+    if (embeddedScore > textScore) {
+        textScore = embeddedScore;
+        textSpan = entry.normalized;
+    }
 
-    // Skip very short transcripts (likely noise or incomplete)
-    if (normalizedTranscript.length < 3) {
-        console.log(`[Matcher] Transcript too short: "${normalizedTranscript}"`);
-        return null;
+    // Strategy 3: Check if transcript is contained in variant (for longer variants)
+    const containingScore = containsSimilarity(entry.normalized, normalizedTranscript);
+    if (containingScore > textScore) {
+        textScore = containingScore;
+        textSpan = normalizedTranscript;
     }
 
-    // Generate candidate spans (tokens and n-grams)
-    const tokens = normalizedTranscript.split(/\s+/).filter(t => t.length > 0);
-    const candidateSpans = generateNGrams(tokens, 4);
-
-    let bestMatch: DestinationMatch | null = null;
-    let bestScore = 0;
-
-    // For each place and each of its variants, calculate similarity
-    for (const place of places) {
-        for (const variant of place.variants) {
-            const normalizedVariant = normalizeText(variant);
-
-            // Strategy 1: Try exact or near-exact match with each candidate span
-            for (const span of candidateSpans) {
-                const spanScore = similarity(span, normalizedVariant);
-
-                if (spanScore > bestScore) {
-                    bestScore = spanScore;
-                    bestMatch = {
-                        place,
-                        matchedVariant: variant,
-                        confidence: spanScore,
-                    };
+    // Strategy 4: Compare phonetic keys when Latin script is involved,
+    // so "toujounine" can meet "توجنين" without a hand-typed Latin variant
+    let phoneticScore = 0;
+    let phoneticSpan = '';
+    if (entry.key.length >= MIN_PHONETIC_KEY_LENGTH) {
+        for (const span of candidateSpans) {
+            if ((span.latin || entry.latin) && span.key.length >= MIN_PHONETIC_KEY_LENGTH) {
+                const keyScore = similarity(span.key, entry.key, floor / PHONETIC_WEIGHT) * PHONETIC_WEIGHT;
+                if (keyScore > phoneticScore) {
+                    phoneticScore = keyScore;
+                    phoneticSpan = span.text;
                 }
             }
+        }
+    }
 
-            // Strategy 2: Check if the variant is contained in the transcript
-            // This helps with cases like "نبغي نمشي توجنين" where "توجنين" is embedded
-            const containsScore = containsSimilarity(normalizedTranscript, normalizedVariant);
-
-            if (containsScore > bestScore) {
-                bestScore = containsScore;
-                bestMatch = {
-                    place,
-                    matchedVariant: variant,
-                    confidence: containsScore,
-                };
-            }
+    const phonetic = phoneticScore > textScore;
+    return {
+        place: entry.place,
+        matchedVariant: entry.variant,
+        matchedSpan: phonetic ? phoneticSpan : textSpan,
+        confidence: Math.max(textScore, phoneticScore),
+        matchedBy: phonetic ? 'phonetic' : 'fuzzy',
+    };
+}
 
-            // Strategy 3: Check if transcript is contained in variant (for longer variants)
-            const reverseContainsScore = containsSimilarity(normalizedVariant, normalizedTranscript);
+/**
+ * Rank places by fuzzy (character and phonetic) similarity to a transcript
+ * Returns one entry per place (its best variant), best first
+ */
+export function rankCandidates(
+    transcript: string,
+    places: Place[],
+    limit: number = DEFAULT_MAX_CANDIDATES,
+    options: RankOptions = {}
+): DestinationMatch[] {
+    const normalizedTranscript = normalizeText(transcript);
+    if (!normalizedTranscript) {
+        return [];
+    }
 
-            if (reverseContainsScore > bestScore) {
-                bestScore = reverseContainsScore;
-                bestMatch = {
-                    place,
-                    matchedVariant: variant,
-                    confidence: reverseContainsScore,
-                };
-            }
+    // Generate candidate spans (n-grams of up to 4 tokens, plus the whole transcript
+    // so longer variants can still match exactly)
+    const tokens = normalizedTranscript.split(/\s+/).filter(t => t.length > 0);
+    const spanTexts = generateNGrams(tokens, 4);
+    if (tokens.length > 4) {
+        spanTexts.push(normalizedTranscript);
+    }
+    const candidateSpans: QuerySpan[] = spanTexts.map(text => ({
+        text,
+        key: phoneticKey(text),
+        latin: hasLatin(text),
+    }));
+
+    // Variants come back in gazetteer order, so ties resolve as in a full scan
+    const index = getMatchIndex(places);
+    const variants = options.exhaustive
+        ? index.variants
+        : index.candidates(normalizedTranscript, candidateSpans);
+
+    const minScore = options.minScore ?? MIN_CANDIDATE_SCORE;
+    const bestByPlace = new Map<Place, DestinationMatch>();
+    for (const entry of variants) {
+        const best = bestByPlace.get(entry.place);
+        const floor = options.exhaustive ? 0 : Math.max(minScore, best?.confidence ?? 0);
+        const match = scoreVariant(normalizedTranscript, candidateSpans, entry, floor);
+        if (match.confidence > (best?.confidence ?? 0)) {
+            bestByPlace.set(entry.place, match);
         }
     }
 
-    // Return the best fuzzy match if it meets the confidence threshold
-    if (bestMatch && bestMatch.confidence >= CONFIDENCE_THRESHOLD) {
-        console.log(`[Matcher] Fuzzy match found: ${bestMatch.place.canonicalName} (${bestMatch.confidence.toFixed(2)})`);
-        bestMatch.matchedBy = 'fuzzy';
-        return bestMatch;
+    // On equal scores the longer matched span wins: "teyaret zeina" is Tevragh Zeina,
+    // not Tayaret contained in it
+    return [...bestByPlace.values()]
+        .filter(match => match.confidence >= minScore)
+        .sort((a, b) => b.confidence - a.confidence || (b.matchedSpan?.length ?? 0) - (a.matchedSpan?.length ?? 0))
+        .slice(0, Math.max(0, limit));
+}
+
+/**
+ * Put a specific place ahead of its district when both are mentioned
+ * ("مطعم فكتوريا في تفرغ زينة" → the restaurant, not the whole district).
+ * Places with no known district qualify too; places known to lie elsewhere do not.
+ */
+function preferSpecificPlaces(ranked: DestinationMatch[], places: Place[]): DestinationMatch[] {
+    const top = ranked[0];
+    if (!top || !isDistrict(top.place)) {
+        return ranked;
+    }
+
+    const specific = ranked.find(candidate =>
+        !isDistrict(candidate.place) &&
+        candidate.confidence >= CONFIDENCE_THRESHOLD &&
+        top.confidence - candidate.confidence <= SPECIFICITY_MARGIN &&
+        (findParentDistrict(candidate.place, places)?.id ?? top.place.id) === top.place.id
+    );
+    if (!specific) {
+        return ranked;
     }
 
-    // Fuzzy matching failed or low confidence - try LLM fallback
-    console.log(`[Matcher] Fuzzy matching failed or low confidence (${bestScore.toFixed(2)}). Trying LLM fallback...`);
+    console.log(`[Matcher] Preferring ${specific.place.canonicalName} over district ${top.place.canonicalName}`);
+    return [specific, ...ranked.filter(candidate => candidate !== specific)];
+}
 
-    try {
-        const llmResult = await matchWithLLM(transcript, places);
+/**
+ * Ranking score: textual confidence plus the distance prior when the rider's position is known
+ */
+function rankScore(match: DestinationMatch): number {
+    if (match.distanceKm === undefined) {
+        return match.confidence;
+    }
+    return match.confidence + LOCATION_WEIGHT * Math.exp(-match.distanceKm / LOCATION_SCALE_KM);
+}
 
-        if (llmResult.destinationId !== null && llmResult.confidence >= 0.85) {
-            // Find the place by ID
-            const matchedPlace = places.find(p => p.id === llmResult.destinationId);
+function withDistance(match: DestinationMatch, location: GeoPoint | undefined): DestinationMatch {
+    if (!location) {
+        return match;
+    }
+    const distanceKm = haversineKm(location, match.place);
+    return { ...match, distanceKm: Math.round(distanceKm * 100) / 100 };
+}
 
-            if (matchedPlace) {
-                console.log(`[Matcher] LLM match found: ${matchedPlace.canonicalName} (${llmResult.confidence.toFixed(2)})`);
-                return {
-                    place: matchedPlace,
-                    matchedVariant: matchedPlace.canonicalName,
-                    confidence: llmResult.confidence,
-                    matchedBy: 'llm',
-                };
-            }
+/**
+ * Rerank candidates by confidence and distance to the rider; the confidence itself is
+ * left untouched, so a nearby place can win a close call but never passes the threshold
+ * on proximity alone
+ */
+function applyLocationPrior(ranked: DestinationMatch[], location: GeoPoint | undefined): DestinationMatch[] {
+    if (!location) {
+        return ranked;
+    }
+    return ranked
+        .map(match => withDistance(match, location))
+        .sort((a, b) => rankScore(b) - rankScore(a));
+}
+
+/**
+ * Wrap an external geocoder result as a match on a transient place (not in the gazetteer)
+ */
+function toExternalMatch(
+    result: GeocodedPlace,
+    candidateId: string | null,
+    rank: number,
+    transcript: string
+): DestinationMatch {
+    return {
+        place: {
+            id: EXTERNAL_PLACE_ID,
+            canonicalName: result.name,
+            variants: [result.name, transcript],
+            lat: result.lat,
+            lon: result.lon,
+        },
+        matchedVariant: result.name,
+        confidence: config.matchGeocoderConfidence - rank * EXTERNAL_RANK_STEP,
+        matchedBy: result.provider,
+        source: {
+            provider: result.provider,
+            externalId: result.externalId,
+            formattedAddress: result.formattedAddress,
+            attribution: result.attribution,
+            candidateId,
+        },
+    };
+}
+
+/**
+ * External places for a query: stored candidates from an earlier identical query,
+ * else a fresh geocoder search (whose results are stored for next time)
+ */
+async function findExternalPlaces(
+    normalizedTranscript: string,
+    transcript: string,
+    geocoderQuery: string,
+    location: GeoPoint | undefined
+): Promise<{ stored: boolean; found: Array<{ result: GeocodedPlace; candidateId: string | null }> }> {
+    const cached = findCachedExternalPlaces(normalizedTranscript);
+    if (cached.length > 0) {
+        console.log(`[Matcher] Serving ${cached.length} stored external place(s) for "${normalizedTranscript}"`);
+        return {
+            stored: true,
+            found: cached
+                .slice(0, MAX_EXTERNAL_RESULTS)
+                .map(entry => ({ result: toGeocodedPlace(entry), candidateId: entry.id })),
+        };
+    }
+
+    const results = await searchExternalPlaces({
+        text: geocoderQuery,
+        near: location,
+        limit: MAX_EXTERNAL_RESULTS,
+    });
+    const recorded = await recordExternalPlaces(normalizedTranscript, transcript, results);
+
+    // Places a reviewer rejected are not offered again
+    return {
+        stored: false,
+        found: results
+            .map((result, index) => ({ result, candidate: recorded[index] ?? null }))
+            .filter(({ candidate }) => candidate?.status !== 'rejected')
+            .map(({ result, candidate }) => ({ result, candidateId: candidate?.id ?? null })),
+    };
+}
+
+/**
+ * Build a resolution from a chosen match and the fuzzy ranking,
+ * keeping places distinct and the chosen match first
+ */
+function buildResolution(
+    match: DestinationMatch | null,
+    ranked: DestinationMatch[],
+    limit: number,
+    location?: GeoPoint
+): DestinationResolution {
+    const chosen = match && withDistance(match, location);
+    // External places all share EXTERNAL_PLACE_ID, so they are never deduplicated against each other
+    const candidates = chosen
+        ? [chosen, ...ranked.filter(c => c.place.id === EXTERNAL_PLACE_ID || c.place.id !== chosen.place.id)]
+        : [...ranked];
+    const top = candidates.slice(0, limit);
+
+    return {
+        match: chosen,
+        candidates: top,
+        ambiguous: top.length >= 2 && rankScore(top[0]) - rankScore(top[1]) < AMBIGUITY_MARGIN,
+    };
+}
+
+function toTracedMatch(match: DestinationMatch): TracedMatch {
+    return {
+        placeId: match.place.id === EXTERNAL_PLACE_ID ? null : match.place.id,
+        canonicalName: match.place.canonicalName,
+        matchedVariant: match.matchedVariant,
+        matchedSpan: match.matchedSpan ?? null,
+        confidence: match.confidence,
+        matchedBy: match.matchedBy ?? null,
+        distanceKm: match.distanceKm ?? null,
+    };
+}
+
+interface StageContext {
+    transcript: string;
+    normalizedTranscript: string;
+    geocoderQuery: string; // The place text in the rider's spelling (intent phrases removed)
+    places: Place[];
+    ranked: DestinationMatch[]; // Fuzzy ranking, after the distance prior and specific-place rule
+    location?: GeoPoint;
+}
+
+interface StageResult {
+    match: DestinationMatch | null; // Set when the stage accepts
+    others?: DestinationMatch[]; // Further results of the stage, offered ahead of the fuzzy candidates
+    best: DestinationMatch | null;
+    reason: string;
+    details?: Record<string, unknown>;
+}
+
+interface MatchStage {
+    threshold: number | null;
+    run(context: StageContext): Promise<StageResult>;
+}
+
+/**
+ * Fuzzy stage: the best-ranked candidate meeting MATCH_FUZZY_THRESHOLD
+ * (with a rider position, ranking includes the distance prior)
+ */
+const fuzzyStage: MatchStage = {
+    threshold: CONFIDENCE_THRESHOLD,
+
+    async run({ ranked }) {
+        const details = { candidates: ranked.slice(0, TRACE_CANDIDATES).map(toTracedMatch) };
+        const match = ranked.find(candidate => candidate.confidence >= CONFIDENCE_THRESHOLD) ?? null;
+        if (match) {
+            const distance = match.distanceKm !== undefined ? `, ${match.distanceKm} km away` : '';
+            console.log(`[Matcher] Fuzzy match found: ${match.place.canonicalName} (${match.confidence.toFixed(2)}${distance})`);
+            return {
+                match,
+                best: match,
+                reason: `${match.place.canonicalName} scored ${match.confidence.toFixed(2)} ≥ ${CONFIDENCE_THRESHOLD}`,
+                details,
+            };
         }
-    } catch (error) {
-        console.error('[Matcher] LLM fallback error:', error);
-        // Continue to Google Maps search if LLM fails
-    }
-
-    // If no match found in local list or confidence is low, try Google Maps
-    console.log(`[Matcher] No match found in local list. Trying Google Maps search...`);
-    try {
-        const googleResult = await searchGoogleMaps(transcript);
-        
-        if (googleResult) {
-            // Return a dynamic place from Google Maps
-            // Use ID -1 to indicate it's an external place
-            console.log(`[Matcher] Google Maps match found: ${googleResult.name} (${googleResult.lat}, ${googleResult.lon})`);
+
+        const best = ranked.reduce<DestinationMatch | null>(
+            (top, candidate) => (!top || candidate.confidence > top.confidence ? candidate : top),
+            null
+        );
+        return {
+            match: null,
+            best,
+            reason: best
+                ? `best score ${best.confidence.toFixed(2)} (${best.place.canonicalName}) < ${CONFIDENCE_THRESHOLD}`
+                : `no place scored ${MIN_CANDIDATE_SCORE} or more`,
+            details,
+        };
+    },
+};
+
+/**
+ * LLM stage: the LLM picks among the closest fuzzy candidates (LLM_SHORTLIST_SIZE of
+ * them, instead of the whole gazetteer), accepted if its confidence meets MATCH_LLM_THRESHOLD
+ */
+const llmStage: MatchStage = {
+    threshold: config.matchLlmThreshold,
+
+    async run({ transcript, places }) {
+        const shortlist = rankCandidates(transcript, places, config.llmShortlistSize, { minScore: SHORTLIST_MIN_SCORE })
+            .map(candidate => candidate.place);
+        const result = await matchWithLLM(transcript, shortlist);
+        const details = {
+            provider: result.provider,
+            attempts: result.attempts,
+            shortlist: shortlist.map(place => place.id),
+            destinationId: result.destinationId,
+            confidence: result.confidence,
+            reasoning: result.reasoning,
+        };
+        if (result.destinationId === null) {
+            return { match: null, best: null, reason: `the LLM picked no place: ${result.reasoning}`, details };
+        }
+
+        const place = shortlist.find(p => p.id === result.destinationId);
+        if (!place) {
+            return { match: null, best: null, reason: `the LLM picked unknown place id ${result.destinationId}`, details };
+        }
+
+        const candidate: DestinationMatch = {
+            place,
+            matchedVariant: place.canonicalName,
+            confidence: result.confidence,
+            matchedBy: 'llm',
+        };
+        if (result.confidence < config.matchLlmThreshold) {
             return {
-                place: {
-                    id: -1, // Special ID for external places from Google Maps
-                    canonicalName: googleResult.name,
-                    variants: [googleResult.name, transcript],
-                    lat: googleResult.lat,
-                    lon: googleResult.lon,
-                },
-                matchedVariant: googleResult.name,
-                confidence: 0.7, // Lower confidence for external matches
-                matchedBy: 'google',
+                match: null,
+                best: candidate,
+                reason: `${place.canonicalName} at ${result.confidence.toFixed(2)} < ${config.matchLlmThreshold}`,
+                details,
             };
         }
-    } catch (error) {
-        console.error('[Matcher] Google Maps search error:', error);
+
+        console.log(`[Matcher] LLM match found: ${place.canonicalName} (${result.confidence.toFixed(2)})`);
+        return {
+            match: candidate,
+            best: candidate,
+            reason: `${place.canonicalName} at ${result.confidence.toFixed(2)} ≥ ${config.matchLlmThreshold}`,
+            details,
+        };
+    },
+};
+
+/**
+ * Geocoder stage: external places for the destination text alone (intent phrases
+ * like "نبغي نمشي" removed), in the rider's spelling rather than the folded form, which
+ * the providers' indexes do; the first result is accepted at MATCH_GEOCODER_CONFIDENCE
+ */
+const geocoderStage: MatchStage = {
+    threshold: null,
+
+    async run({ transcript, normalizedTranscript, geocoderQuery, location }) {
+        const { stored, found } = await findExternalPlaces(normalizedTranscript, transcript, geocoderQuery, location);
+        if (found.length === 0) {
+            return { match: null, best: null, reason: 'no external place inside Nouakchott' };
+        }
+
+        const [best, ...others] = found.map(({ result, candidateId }, index) =>
+            toExternalMatch(result, candidateId, index, transcript)
+        );
+        const provider = best.source?.provider;
+        console.log(`[Matcher] ${provider} match found: ${best.place.canonicalName} (${best.place.lat}, ${best.place.lon})`);
+        return {
+            match: best,
+            others: others.map(match => withDistance(match, location)),
+            best,
+            reason: `${found.length} place(s) from ${stored ? 'stored candidates' : provider}`,
+            details: { provider, stored, results: found.map(({ result }) => result.name) },
+        };
+    },
+};
+
+const STAGES: Record<MatchStageName, MatchStage> = {
+    fuzzy: fuzzyStage,
+    llm: llmStage,
+    geocoder: geocoderStage,
+};
+
+function skippedStage(stage: MatchStageName, reason: string): StageTrace {
+    return { stage, outcome: 'skipped', reason, threshold: STAGES[stage].threshold, durationMs: 0, best: null };
+}
+
+/**
+ * Resolve a destination from a transcript through the matching stages
+ *
+ * The stages run in MATCH_STAGES order (default fuzzy → llm → geocoder) until one
+ * accepts a match:
+ * - fuzzy: character and cross-script phonetic similarity, accepted at MATCH_FUZZY_THRESHOLD
+ * - llm: an LLM picks among the gazetteer places, accepted at MATCH_LLM_THRESHOLD
+ * - geocoder: external geocoders (Google Places, Nominatim…), at MATCH_GEOCODER_CONFIDENCE
+ *
+ * Besides the chosen match, the resolution carries the ranked fuzzy candidates
+ * so clients can offer a "did you mean…" picker. For landmark-relative requests
+ * ("گدام مسجد ولد أحمدو") only the landmark is matched, and every match carries
+ * the spatial relation.
+ */
+export async function resolveDestination(
+    transcript: string,
+    places: Place[],
+    options: ResolveOptions = {}
+): Promise<DestinationResolution> {
+    const relationPhrase = transcript ? extractRelation(normalizeText(transcript)) : null;
+    if (!relationPhrase) {
+        return resolvePlace(transcript, places, options);
+    }
+
+    const { relation, phrase, anchorText } = relationPhrase;
+    console.log(`[Matcher] Relation "${phrase}" (${relation.type}), anchor: "${anchorText}"`);
+
+    const resolution = await resolvePlace(anchorText, places, options);
+    const withRelation = (match: DestinationMatch): DestinationMatch => ({ ...match, relation });
+    return {
+        ...resolution,
+        match: resolution.match && withRelation(resolution.match),
+        candidates: resolution.candidates.map(withRelation),
+        ...(resolution.trace && { trace: { ...resolution.trace, relation: { type: relation.type, phrase } } }),
+    };
+}
+
+/**
+ * Resolve a place name (relation phrase already removed) through the matching stages
+ */
+async function resolvePlace(
+    transcript: string,
+    places: Place[],
+    options: ResolveOptions
+): Promise<DestinationResolution> {
+    const limit = options.maxCandidates ?? DEFAULT_MAX_CANDIDATES;
+    const { location } = options;
+    const normalizedTranscript = normalizeText(transcript);
+
+    const stages: StageTrace[] = [];
+    const finish = (resolution: DestinationResolution): DestinationResolution => {
+        if (!options.explain) {
+            return resolution;
+        }
+        const disabled = MATCH_STAGE_NAMES.filter(stage => !config.matchStages.includes(stage));
+        const trace: MatchTrace = {
+            input: transcript,
+            normalizedInput: normalizedTranscript,
+            relation: null,
+            stages: [...stages, ...disabled.map(stage => skippedStage(stage, 'disabled by configuration'))],
+        };
+        return { ...resolution, trace };
+    };
+
+    if (!normalizedTranscript || places.length === 0) {
+        stages.push(...config.matchStages.map(stage => skippedStage(stage, 'empty transcript or gazetteer')));
+        return finish(buildResolution(null, [], limit));
+    }
+
+    // Skip very short transcripts (likely noise or incomplete)
+    if (normalizedTranscript.length < 3) {
+        console.log(`[Matcher] Transcript too short: "${normalizedTranscript}"`);
+        stages.push(...config.matchStages.map(stage => skippedStage(stage, 'transcript too short')));
+        return finish(buildResolution(null, [], limit));
+    }
+
+    // With a known position, look deeper so a nearby place just outside the top few can surface.
+    // The ranking also provides the candidates when the fuzzy stage is disabled.
+    const poolSize = location ? Math.max(limit, LOCATION_POOL_SIZE) : limit;
+    const ranked = preferSpecificPlaces(
+        applyLocationPrior(rankCandidates(transcript, places, poolSize), location),
+        places
+    );
+    const geocoderQuery = findOriginalSpan(options.originalText ?? transcript, normalizedTranscript) ?? normalizedTranscript;
+    const context: StageContext = { transcript, normalizedTranscript, geocoderQuery, places, ranked, location };
+
+    for (const [index, name] of config.matchStages.entries()) {
+        if (options.fuzzyOnly && name !== 'fuzzy') {
+            stages.push(skippedStage(name, 'fuzzy-only request'));
+            continue;
+        }
+        if (options.skipGeocoder && name === 'geocoder') {
+            stages.push(skippedStage(name, 'geocoder skipped for this request'));
+            continue;
+        }
+
+        const stage = STAGES[name];
+        const startedAt = Date.now();
+        let result: StageResult;
+        try {
+            result = await stage.run(context);
+        } catch (error) {
+            console.error(`[Matcher] ${name} stage error:`, error);
+            stages.push({
+                stage: name,
+                outcome: 'failed',
+                reason: error instanceof Error ? error.message : 'Unknown error',
+                threshold: stage.threshold,
+                durationMs: Date.now() - startedAt,
+                best: null,
+            });
+            continue;
+        }
+
+        stages.push({
+            stage: name,
+            outcome: result.match ? 'accepted' : 'rejected',
+            reason: result.reason,
+            threshold: stage.threshold,
+            durationMs: Date.now() - startedAt,
+            best: result.best && toTracedMatch(result.best),
+            ...(result.details && { details: result.details }),
+        });
+
+        if (result.match) {
+            const remaining = config.matchStages.slice(index + 1);
+            stages.push(...remaining.map(stage => skippedStage(stage, `${name} stage accepted a match`)));
+            return finish(buildResolution(result.match, [...(result.others ?? []), ...ranked], limit, location));
+        }
+        console.log(`[Matcher] ${name} stage found no match: ${result.reason}`);
     }
 
-    return null;
+    return finish(buildResolution(null, ranked, limit, location));
 }
@@ -0,0 +1,306 @@
+/**
+ * Candidate gazetteer entries: places found by an external geocoder
+ *
+ * Every external hit is kept with the queries that led to it, so a repeat query is
+ * answered locally instead of costing another (paid) geocoder call. Reviewers promote
+ * useful candidates into real places, after which fuzzy matching finds them directly.
+ */
+import path from 'path';
+import crypto from 'crypto';
+import { config, GeocoderProviderName } from '../config/env';
+import { GeocodedPlace } from './geocoder';
+import { createPlace, PlaceInput } from './gazetteer';
+import { Place } from './destinationMatcher';
+import { readJsonFile, writeJsonFileAtomic } from './jsonFileStore';
+
+export type ExternalPlaceStatus = 'pending' | 'promoted' | 'rejected';
+
+export interface ExternalPlaceEntry {
+    id: string;
+    provider: GeocoderProviderName;
+    externalId: string | null;
+    name: string;
+    lat: number;
+    lon: number;
+    formattedAddress: string | null;
+    attribution: string;
+    queries: string[]; // Normalized queries that returned this place
+    transcripts: string[]; // Transcripts those queries came from
+    hits: number; // Times returned to a rider, from the geocoder or from this store
+    createdAt: string;
+    lastSeenAt: string;
+    status: ExternalPlaceStatus;
+    reviewedAt: string | null;
+    promotedPlaceId: number | null;
+}
+
+export type ExternalPlaceErrorCode = 'CANDIDATE_NOT_FOUND' | 'ALREADY_REVIEWED';
+
+export class ExternalPlaceError extends Error {
+    constructor(public readonly code: ExternalPlaceErrorCode, message: string) {
+        super(message);
+        this.name = 'ExternalPlaceError';
+    }
+}
+
+// Transcripts kept per candidate, as examples for reviewers
+const MAX_TRANSCRIPTS = 10;
+
+const storePath = () => path.join(config.dataDir, 'external-places.json');
+
+let entries: ExternalPlaceEntry[] = [];
+
+// Recording is off until the store is loaded, so scripts that never load it cannot
+// overwrite the file with an empty list
+let loaded = false;
+
+// Serializes mutations so concurrent requests cannot interleave file writes
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+// Candidates served from the store are counted in memory and written with the next
+// change, or after this delay, rather than rewriting the file on every hit
+const HIT_FLUSH_DELAY_MS = 30_000;
+
+// Unwritten hits by candidate id
+const pendingHits = new Map<string, { hits: number; lastSeenAt: string }>();
+let hitFlushTimer: NodeJS.Timeout | null = null;
+
+type Mutation<T> = { next: ExternalPlaceEntry[]; result: T };
+
+export async function initExternalPlaceStore(): Promise<void> {
+    entries = await readJsonFile<ExternalPlaceEntry[]>(storePath(), []);
+    loaded = true;
+    console.log(`[ExternalPlaces] Loaded ${entries.length} candidate places`);
+}
+
+function withPendingHits(list: ExternalPlaceEntry[]): ExternalPlaceEntry[] {
+    if (!pendingHits.size) {
+        return list;
+    }
+    return list.map((entry) => {
+        const pending = pendingHits.get(entry.id);
+        return pending ? { ...entry, hits: entry.hits + pending.hits, lastSeenAt: pending.lastSeenAt } : entry;
+    });
+}
+
+/**
+ * Compute a new entry list, persist it (with the hits counted since the last write)
+ * and swap it in. The change may be async; it runs alone in the write queue.
+ */
+function mutate<T>(change: (current: ExternalPlaceEntry[]) => Mutation<T> | Promise<Mutation<T>>): Promise<T> {
+    const run = writeQueue.then(async () => {
+        const { next, result } = await change(entries);
+        const written = withPendingHits(next);
+        pendingHits.clear();
+        await writeJsonFileAtomic(storePath(), written);
+        entries = written;
+        return result;
+    });
+    writeQueue = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * Write the hits counted since the last change (on a timer, and at shutdown)
+ */
+export function flushExternalPlaceStore(): Promise<void> {
+    if (hitFlushTimer) {
+        clearTimeout(hitFlushTimer);
+        hitFlushTimer = null;
+    }
+    if (!loaded || !pendingHits.size) {
+        return Promise.resolve();
+    }
+    return mutate(current => ({ next: current, result: undefined }));
+}
+
+function countHits(ids: string[]): void {
+    const now = new Date().toISOString();
+    for (const id of ids) {
+        pendingHits.set(id, { hits: (pendingHits.get(id)?.hits ?? 0) + 1, lastSeenAt: now });
+    }
+    if (!hitFlushTimer) {
+        hitFlushTimer = setTimeout(() => {
+            hitFlushTimer = null;
+            flushExternalPlaceStore().catch(error => console.error('[ExternalPlaces] Failed to write hits:', error));
+        }, HIT_FLUSH_DELAY_MS);
+        hitFlushTimer.unref();
+    }
+}
+
+/**
+ * Same provider place: by the provider's id, else by name and (rounded) coordinates
+ */
+function isSamePlace(entry: ExternalPlaceEntry, place: GeocodedPlace): boolean {
+    if (entry.provider !== place.provider) {
+        return false;
+    }
+    if (entry.externalId !== null || place.externalId !== null) {
+        return entry.externalId === place.externalId;
+    }
+    return entry.name === place.name &&
+        entry.lat.toFixed(5) === place.lat.toFixed(5) &&
+        entry.lon.toFixed(5) === place.lon.toFixed(5);
+}
+
+export function toGeocodedPlace(entry: ExternalPlaceEntry): GeocodedPlace {
+    return {
+        name: entry.name,
+        lat: entry.lat,
+        lon: entry.lon,
+        formattedAddress: entry.formattedAddress,
+        externalId: entry.externalId,
+        provider: entry.provider,
+        attribution: entry.attribution,
+    };
+}
+
+export function listExternalPlaces(status?: ExternalPlaceStatus): ExternalPlaceEntry[] {
+    const current = withPendingHits(entries);
+    return status ? current.filter(e => e.status === status) : current;
+}
+
+/**
+ * Pending candidates previously returned for this normalized query, most requested first.
+ * The hit is counted in memory and written later (see HIT_FLUSH_DELAY_MS).
+ */
+export function findCachedExternalPlaces(normalizedQuery: string): ExternalPlaceEntry[] {
+    const matches = (e: ExternalPlaceEntry) => e.status === 'pending' && e.queries.includes(normalizedQuery);
+    if (loaded && entries.some(matches)) {
+        countHits(entries.filter(matches).map(e => e.id));
+    }
+    return withPendingHits(entries)
+        .filter(matches)
+        .sort((a, b) => b.hits - a.hits);
+}
+
+/**
+ * Count a hit for pending candidates served again without a lookup here, from a cached
+ * resolution, so requests are counted whether or not the match cache answered them
+ */
+export function countExternalPlaceHits(ids: string[]): void {
+    const pending = new Set(entries.filter(e => e.status === 'pending').map(e => e.id));
+    const served = [...new Set(ids)].filter(id => pending.has(id));
+    if (loaded && served.length) {
+        countHits(served);
+    }
+}
+
+/**
+ * Store geocoder results for a query, merging them into existing candidates
+ * Returns the candidate entries in the order of the results (empty when the store is not loaded)
+ */
+export async function recordExternalPlaces(
+    normalizedQuery: string,
+    transcript: string,
+    results: GeocodedPlace[]
+): Promise<ExternalPlaceEntry[]> {
+    if (!loaded || !results.length) {
+        return [];
+    }
+
+    const now = new Date().toISOString();
+    return mutate((current) => {
+        const next = [...current];
+        const recorded = results.map((place) => {
+            const index = next.findIndex(e => isSamePlace(e, place));
+            const existing = index >= 0 ? next[index] : null;
+            const entry: ExternalPlaceEntry = existing
+                ? {
+                    ...existing,
+                    queries: existing.queries.includes(normalizedQuery)
+                        ? existing.queries
+                        : [...existing.queries, normalizedQuery],
+                    transcripts: existing.transcripts.includes(transcript)
+                        ? existing.transcripts
+                        : [...existing.transcripts, transcript].slice(-MAX_TRANSCRIPTS),
+                    hits: existing.hits + 1,
+                    lastSeenAt: now,
+                }
+                : {
+                    id: crypto.randomUUID(),
+                    provider: place.provider,
+                    externalId: place.externalId,
+                    name: place.name,
+                    lat: place.lat,
+                    lon: place.lon,
+                    formattedAddress: place.formattedAddress,
+                    attribution: place.attribution,
+                    queries: [normalizedQuery],
+                    transcripts: [transcript],
+                    hits: 1,
+                    createdAt: now,
+                    lastSeenAt: now,
+                    status: 'pending',
+                    reviewedAt: null,
+                    promotedPlaceId: null,
+                };
+            if (existing) {
+                next[index] = entry;
+            } else {
+                next.push(entry);
+            }
+            return entry;
+        });
+        return { next, result: recorded };
+    });
+}
+
+function findPending(current: ExternalPlaceEntry[], id: string): ExternalPlaceEntry {
+    const entry = current.find(e => e.id === id);
+    if (!entry) {
+        throw new ExternalPlaceError('CANDIDATE_NOT_FOUND', `Candidate place ${id} does not exist`);
+    }
+    if (entry.status !== 'pending') {
+        throw new ExternalPlaceError('ALREADY_REVIEWED', `Candidate place ${id} is already ${entry.status}`);
+    }
+    return entry;
+}
+
+/**
+ * Promote a candidate into a gazetteer place. The name, coordinates and queries are
+ * used unless the reviewer overrides them (gazetteer validation applies as usual).
+ * The place is created while the candidate is held in the write queue, so concurrent
+ * reviews of the same candidate cannot both go through.
+ */
+export function promoteExternalPlace(
+    id: string,
+    overrides: Partial<Omit<PlaceInput, 'lat' | 'lon'>> = {}
+): Promise<{ candidate: ExternalPlaceEntry; place: Place }> {
+    return mutate(async (current) => {
+        const entry = findPending(current, id);
+
+        // Gazetteer validation (e.g. DUPLICATE_VARIANT) aborts the promotion
+        const place = await createPlace({
+            ...overrides,
+            canonicalName: overrides.canonicalName ?? entry.name,
+            variants: overrides.variants ?? [entry.name, ...entry.queries],
+            lat: entry.lat,
+            lon: entry.lon,
+        });
+        console.log(`[ExternalPlaces] Promoted ${entry.provider} candidate "${entry.name}" to place ${place.id}`);
+
+        const updated: ExternalPlaceEntry = {
+            ...entry,
+            status: 'promoted',
+            reviewedAt: new Date().toISOString(),
+            promotedPlaceId: place.id,
+        };
+        return { next: current.map(e => (e.id === id ? updated : e)), result: { candidate: updated, place } };
+    });
+}
+
+/**
+ * Reject a candidate (wrong place); it is no longer served for its queries
+ */
+export function rejectExternalPlace(id: string): Promise<ExternalPlaceEntry> {
+    return mutate((current) => {
+        const entry = findPending(current, id);
+        const updated: ExternalPlaceEntry = {
+            ...entry,
+            status: 'rejected',
+            reviewedAt: new Date().toISOString(),
+        };
+        return { next: current.map(e => (e.id === id ? updated : e)), result: updated };
+    });
+}
@@ -0,0 +1,201 @@
+/**
+ * Rider feedback store: confirmed destinations for transcripts, with a review queue
+ *
+ * Feedback that could teach the matcher something (a miss, or a match that needed the
+ * LLM / Google fallback) is queued for review; approved entries are promoted into the
+ * confirmed place's variants so fuzzy matching catches the spelling next time. Only the
+ * destination phrase is promoted, not the intent words or origin around it.
+ */
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { normalizeText } from './normalization';
+import { getPlace, getPlaces, addVariants } from './gazetteer';
+import { extractDestinationPhrase } from './tripParser';
+import { readJsonFile, writeJsonFileAtomic } from './jsonFileStore';
+
+export type FeedbackStatus = 'pending' | 'approved' | 'rejected' | 'ignored';
+
+export interface FeedbackEntry {
+    id: string;
+    createdAt: string;
+    transcript: string;
+    normalizedTranscript: string;
+    returnedPlaceId: number | null; // null when nothing (or an external place) was returned
+    returnedMatchedBy: string | null;
+    confirmedPlaceId: number;
+    status: FeedbackStatus;
+    reviewedAt: string | null;
+    promotedVariant: string | null;
+}
+
+export interface FeedbackInput {
+    transcript: string;
+    returnedPlaceId?: number | null;
+    returnedMatchedBy?: string | null;
+    confirmedPlaceId: number;
+}
+
+export type FeedbackErrorCode = 'VALIDATION_ERROR' | 'FEEDBACK_NOT_FOUND' | 'ALREADY_REVIEWED';
+
+export class FeedbackError extends Error {
+    constructor(public readonly code: FeedbackErrorCode, message: string) {
+        super(message);
+        this.name = 'FeedbackError';
+    }
+}
+
+const feedbackPath = () => path.join(config.dataDir, 'feedback.json');
+
+let entries: FeedbackEntry[] = [];
+
+// Serializes mutations so concurrent requests cannot interleave file writes
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+export async function initFeedbackStore(): Promise<void> {
+    entries = await readJsonFile<FeedbackEntry[]>(feedbackPath(), []);
+    console.log(`[Feedback] Loaded ${entries.length} feedback entries`);
+}
+
+function mutate<T>(change: (current: FeedbackEntry[]) => { next: FeedbackEntry[]; result: T }): Promise<T> {
+    const run = writeQueue.then(async () => {
+        const { next, result } = change(entries);
+        await writeJsonFileAtomic(feedbackPath(), next);
+        entries = next;
+        return result;
+    });
+    writeQueue = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * Whether the normalized transcript is already one of the place's variants
+ */
+function isKnownVariant(placeId: number, normalizedTranscript: string): boolean {
+    const place = getPlace(placeId);
+    return !!place && place.variants.some(v => normalizeText(v) === normalizedTranscript);
+}
+
+export function listFeedback(status?: FeedbackStatus): FeedbackEntry[] {
+    return status ? entries.filter(e => e.status === status) : entries;
+}
+
+/**
+ * How often riders confirmed each place (rejected feedback excluded), as a popularity signal
+ */
+export function getConfirmationCounts(): Map<number, number> {
+    const counts = new Map<number, number>();
+    for (const entry of entries) {
+        if (entry.status !== 'rejected') {
+            counts.set(entry.confirmedPlaceId, (counts.get(entry.confirmedPlaceId) ?? 0) + 1);
+        }
+    }
+    return counts;
+}
+
+export function recordFeedback(input: FeedbackInput): Promise<FeedbackEntry> {
+    if (typeof input.transcript !== 'string' || !input.transcript.trim()) {
+        throw new FeedbackError('VALIDATION_ERROR', '"transcript" must be a non-empty string');
+    }
+    if (!Number.isInteger(input.confirmedPlaceId) || !getPlace(input.confirmedPlaceId)) {
+        throw new FeedbackError('VALIDATION_ERROR', '"confirmedPlaceId" must be the id of an existing place');
+    }
+    const returnedPlaceId = input.returnedPlaceId ?? null;
+    if (returnedPlaceId !== null && !Number.isInteger(returnedPlaceId)) {
+        throw new FeedbackError('VALIDATION_ERROR', '"returnedPlaceId" must be an integer or null');
+    }
+
+    const transcript = input.transcript.trim();
+    const normalizedTranscript = normalizeText(transcript);
+    const returnedMatchedBy = input.returnedMatchedBy ?? null;
+    const phrase = extractDestinationPhrase(transcript, getPlaces());
+
+    // Only queue feedback that would teach fuzzy matching a new spelling
+    const fuzzyAlreadyRight = returnedPlaceId === input.confirmedPlaceId && returnedMatchedBy === 'fuzzy';
+    const status: FeedbackStatus = fuzzyAlreadyRight || (phrase !== null && isKnownVariant(input.confirmedPlaceId, phrase))
+        ? 'ignored'
+        : 'pending';
+
+    const entry: FeedbackEntry = {
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        transcript,
+        normalizedTranscript,
+        returnedPlaceId,
+        returnedMatchedBy,
+        confirmedPlaceId: input.confirmedPlaceId,
+        status,
+        reviewedAt: null,
+        promotedVariant: null,
+    };
+
+    return mutate((current) => ({ next: [...current, entry], result: entry }));
+}
+
+function findPending(current: FeedbackEntry[], id: string): FeedbackEntry {
+    const entry = current.find(e => e.id === id);
+    if (!entry) {
+        throw new FeedbackError('FEEDBACK_NOT_FOUND', `Feedback ${id} does not exist`);
+    }
+    if (entry.status !== 'pending') {
+        throw new FeedbackError('ALREADY_REVIEWED', `Feedback ${id} is already ${entry.status}`);
+    }
+    return entry;
+}
+
+/**
+ * Mark a pending entry as reviewed. The lookup and status check run inside the write
+ * queue, so concurrent reviews of the same entry cannot both succeed.
+ */
+function review(id: string, changes: Partial<FeedbackEntry>): Promise<FeedbackEntry> {
+    return mutate((current) => {
+        const updated: FeedbackEntry = {
+            ...findPending(current, id),
+            ...changes,
+            reviewedAt: new Date().toISOString(),
+        };
+        return { next: current.map(e => (e.id === id ? updated : e)), result: updated };
+    });
+}
+
+/**
+ * Approve a feedback entry and promote its destination phrase (the part of the
+ * transcript the matcher resolves, without intent words or origin) into the
+ * confirmed place's variants
+ *
+ * @param variant - Optional reviewer-edited spelling to promote instead; required
+ *                  when no destination phrase can be read from the transcript
+ */
+export async function approveFeedback(id: string, variant?: string): Promise<FeedbackEntry> {
+    const pending = findPending(entries, id);
+    const promoted = normalizeText(variant ?? extractDestinationPhrase(pending.transcript, getPlaces()) ?? '');
+    if (!promoted) {
+        throw new FeedbackError(
+            'VALIDATION_ERROR',
+            variant === undefined
+                ? 'No destination phrase found in the transcript; send the "variant" to promote'
+                : 'Nothing left to promote after normalization'
+        );
+    }
+
+    const approved = await review(id, { status: 'approved', promotedVariant: promoted });
+
+    // Gazetteer validation (e.g. DUPLICATE_VARIANT) undoes the approval
+    if (!isKnownVariant(approved.confirmedPlaceId, promoted)) {
+        try {
+            await addVariants(approved.confirmedPlaceId, [promoted]);
+        } catch (error) {
+            await mutate((current) => ({
+                next: current.map(e => (e.id === id ? pending : e)),
+                result: undefined,
+            }));
+            throw error;
+        }
+        console.log(`[Feedback] Promoted "${promoted}" to place ${approved.confirmedPlaceId}`);
+    }
+    return approved;
+}
+
+export function rejectFeedback(id: string): Promise<FeedbackEntry> {
+    return review(id, { status: 'rejected' });
+}
@@ -0,0 +1,485 @@
+/**
+ * Gazetteer store: the live list of Nouakchott places used by the matcher
+ *
+ * Places are persisted in a JSON file (GAZETTEER_PATH) written atomically, seeded from
+ * the bundled `data/places.json` on first start. Every change swaps the in-memory list,
+ * bumps the version and notifies listeners so derived indexes can be rebuilt.
+ */
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { Place } from './destinationMatcher';
+import { normalizeText } from './normalization';
+import { isWithinNouakchott, NOUAKCHOTT_BOUNDS } from './geo';
+import { PlaceCategory, PLACE_CATEGORIES, isPlaceCategory, isDistrict } from './placeHierarchy';
+import { readJsonFile, writeJsonFileAtomic } from './jsonFileStore';
+import seedPlaces from '../data/places.json';
+
+export type GazetteerErrorCode =
+    | 'VALIDATION_ERROR'
+    | 'PLACE_NOT_FOUND'
+    | 'DUPLICATE_ID'
+    | 'DUPLICATE_VARIANT';
+
+export class GazetteerError extends Error {
+    constructor(public readonly code: GazetteerErrorCode, message: string) {
+        super(message);
+        this.name = 'GazetteerError';
+    }
+}
+
+export interface PlaceInput {
+    id?: number;
+    canonicalName: string;
+    category?: PlaceCategory;
+    parentId?: number | null;
+    polygon?: Array<[number, number]> | null;
+    variants?: string[];
+    lat: number;
+    lon: number;
+}
+
+export type PlacePatch = Partial<Omit<PlaceInput, 'id'>>;
+
+type GazetteerListener = (places: Place[], version: number) => void;
+
+let places: Place[] = [];
+let version = 0;
+let revision = '';
+const listeners: GazetteerListener[] = [];
+
+// Serializes mutations so concurrent requests cannot interleave file writes
+let writeQueue: Promise<unknown> = Promise.resolve();
+
+function applyPlaces(next: Place[]): void {
+    places = next;
+    version++;
+    revision = crypto.createHash('sha256').update(JSON.stringify(next)).digest('hex').slice(0, 16);
+    for (const listener of listeners) {
+        try {
+            listener(places, version);
+        } catch (error) {
+            console.error('[Gazetteer] Change listener failed:', error);
+        }
+    }
+}
+
+/**
+ * Load the gazetteer from disk, seeding it from the bundled places.json if missing
+ */
+export async function initGazetteer(): Promise<void> {
+    const stored = await readJsonFile<Place[] | null>(config.gazetteerPath, null);
+
+    if (stored === null) {
+        console.log(`[Gazetteer] No store at ${config.gazetteerPath}, seeding from bundled places.json`);
+        const seeded = seedPlaces as Place[];
+        await writeJsonFileAtomic(config.gazetteerPath, seeded);
+        applyPlaces(seeded);
+    } else {
+        if (!Array.isArray(stored)) {
+            throw new Error(`Gazetteer store ${config.gazetteerPath} does not contain an array of places`);
+        }
+        const { places: migrated, filled } = backfillHierarchy(stored);
+        if (filled > 0) {
+            console.log(`[Gazetteer] Filled parentId/polygon of ${filled} places from bundled places.json`);
+            await writeJsonFileAtomic(config.gazetteerPath, migrated);
+        }
+        applyPlaces(migrated);
+    }
+
+    console.log(`[Gazetteer] Loaded ${places.length} places (version ${version})`);
+}
+
+/**
+ * Stores seeded before places had a parent district and an outline lack both fields:
+ * copy them from the bundled seed for places that still carry the seed's id and name.
+ * Fields already present (null included) are left alone, so this only runs once.
+ */
+function backfillHierarchy(stored: Place[]): { places: Place[]; filled: number } {
+    const seedById = new Map((seedPlaces as Place[]).map(place => [place.id, place]));
+    let filled = 0;
+
+    const migrated = stored.map((place) => {
+        const seed = seedById.get(place.id);
+        if (!seed || seed.canonicalName !== place.canonicalName ||
+            (place.parentId !== undefined && place.polygon !== undefined)) {
+            return place;
+        }
+
+        const parent = stored.find(p => p.id === seed.parentId);
+        const parentId = place.parentId !== undefined
+            ? place.parentId
+            : parent && isDistrict(parent) ? parent.id : null;
+        const polygon = place.polygon !== undefined
+            ? place.polygon
+            : isDistrict(place) ? seed.polygon ?? null : null;
+        filled++;
+        return { ...place, parentId, polygon };
+    });
+
+    return { places: migrated, filled };
+}
+
+/**
+ * Re-read the gazetteer file, e.g. after it was edited by hand. The file gets the same
+ * backfill as on start and the same checks as admin edits; when a place fails them the
+ * current gazetteer stays live and the error names the place.
+ */
+export async function reloadGazetteer(): Promise<Place[]> {
+    await enqueue(async () => {
+        const stored = await readJsonFile<Place[] | null>(config.gazetteerPath, null);
+        if (!Array.isArray(stored)) {
+            throw new GazetteerError('VALIDATION_ERROR', `Gazetteer store ${config.gazetteerPath} is missing or not an array`);
+        }
+        validatePlaces(stored, places);
+        const { places: migrated, filled } = backfillHierarchy(stored);
+        if (filled > 0) {
+            console.log(`[Gazetteer] Filled parentId/polygon of ${filled} places from bundled places.json`);
+            await writeJsonFileAtomic(config.gazetteerPath, migrated);
+        }
+        applyPlaces(migrated);
+    });
+    return places;
+}
+
+export function getPlaces(): Place[] {
+    return places;
+}
+
+export function getPlace(id: number): Place | undefined {
+    return places.find(p => p.id === id);
+}
+
+/**
+ * Version number incremented on every change (usable as a cache key component)
+ */
+export function getGazetteerVersion(): number {
+    return version;
+}
+
+/**
+ * Hash of the gazetteer content: unlike the version, it survives restarts, so it can
+ * key entries in persisted caches
+ */
+export function getGazetteerRevision(): string {
+    return revision;
+}
+
+/**
+ * Register a listener called with the new place list after every change
+ */
+export function onGazetteerChange(listener: GazetteerListener): void {
+    listeners.push(listener);
+}
+
+function enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const run = writeQueue.then(task);
+    writeQueue = run.catch(() => undefined);
+    return run;
+}
+
+/**
+ * Compute a new place list, persist it and swap it in
+ */
+function mutate<T>(change: (current: Place[]) => { next: Place[]; result: T }): Promise<T> {
+    return enqueue(async () => {
+        const { next, result } = change(places);
+        await writeJsonFileAtomic(config.gazetteerPath, next);
+        applyPlaces(next);
+        return result;
+    });
+}
+
+function findOrThrow(current: Place[], id: number): Place {
+    const place = current.find(p => p.id === id);
+    if (!place) {
+        throw new GazetteerError('PLACE_NOT_FOUND', `Place ${id} does not exist`);
+    }
+    return place;
+}
+
+function validateCanonicalName(name: unknown): string {
+    if (typeof name !== 'string' || !name.trim()) {
+        throw new GazetteerError('VALIDATION_ERROR', '"canonicalName" must be a non-empty string');
+    }
+    return name.trim();
+}
+
+function validateCoordinates(lat: unknown, lon: unknown): { lat: number; lon: number } {
+    if (typeof lat !== 'number' || typeof lon !== 'number' || !Number.isFinite(lat) || !Number.isFinite(lon)) {
+        throw new GazetteerError('VALIDATION_ERROR', '"lat" and "lon" must be finite numbers');
+    }
+    if (!isWithinNouakchott(lat, lon)) {
+        const b = NOUAKCHOTT_BOUNDS;
+        throw new GazetteerError(
+            'VALIDATION_ERROR',
+            `Coordinates (${lat}, ${lon}) are outside Nouakchott (lat ${b.minLat}..${b.maxLat}, lon ${b.minLon}..${b.maxLon})`
+        );
+    }
+    return { lat, lon };
+}
+
+function validateCategory(category: unknown): PlaceCategory {
+    if (!isPlaceCategory(category)) {
+        throw new GazetteerError('VALIDATION_ERROR', `"category" must be one of ${PLACE_CATEGORIES.join(', ')}`);
+    }
+    return category;
+}
+
+/**
+ * A parent must be an existing district other than the place itself
+ */
+function validateParentId(current: Place[], placeId: number, parentId: unknown): number | null {
+    if (parentId === null || parentId === undefined) {
+        return null;
+    }
+    if (!Number.isInteger(parentId) || parentId === placeId) {
+        throw new GazetteerError('VALIDATION_ERROR', '"parentId" must be the id of another place');
+    }
+    const parent = current.find(p => p.id === parentId);
+    if (!parent || !isDistrict(parent)) {
+        throw new GazetteerError('VALIDATION_ERROR', `"parentId" ${parentId} is not an existing district`);
+    }
+    return parent.id;
+}
+
+function validatePolygon(polygon: unknown): Array<[number, number]> | null {
+    if (polygon === null || polygon === undefined) {
+        return null;
+    }
+    const valid = Array.isArray(polygon) &&
+        polygon.length >= 3 &&
+        polygon.every(point =>
+            Array.isArray(point) &&
+            point.length === 2 &&
+            point.every(n => typeof n === 'number' && Number.isFinite(n)) &&
+            isWithinNouakchott(point[0], point[1])
+        );
+    if (!valid) {
+        throw new GazetteerError(
+            'VALIDATION_ERROR',
+            '"polygon" must be an array of at least 3 [lat, lon] points within Nouakchott'
+        );
+    }
+    return polygon as Array<[number, number]>;
+}
+
+/**
+ * Places may only stop being districts once nothing points to them as a parent
+ */
+function assertNoChildren(current: Place[], id: number, action: string): void {
+    const children = current.filter(p => p.parentId === id);
+    if (children.length > 0) {
+        throw new GazetteerError(
+            'VALIDATION_ERROR',
+            `Cannot ${action} place ${id}: it is the parent district of ${children.length} place(s)`
+        );
+    }
+}
+
+/**
+ * Trim variants and drop empty entries and duplicates (compared after normalization)
+ */
+function sanitizeVariants(variants: unknown): string[] {
+    if (!Array.isArray(variants) || variants.some(v => typeof v !== 'string')) {
+        throw new GazetteerError('VALIDATION_ERROR', '"variants" must be an array of strings');
+    }
+
+    const seen = new Set<string>();
+    const result: string[] = [];
+    for (const variant of variants as string[]) {
+        const trimmed = variant.trim();
+        const normalized = normalizeText(trimmed);
+        if (!normalized || seen.has(normalized)) {
+            continue;
+        }
+        seen.add(normalized);
+        result.push(trimmed);
+    }
+    return result;
+}
+
+/**
+ * Reject variants already used by another place.
+ * Only variants new to the place (compared with `previous`, the list before the change)
+ * are checked, so pre-existing overlaps do not block edits.
+ */
+function assertNoDuplicateVariants(
+    current: Place[],
+    ownerId: number,
+    variants: string[],
+    previous: Place[] = current
+): void {
+    const owner = previous.find(p => p.id === ownerId);
+    const ownVariants = new Set((owner?.variants ?? []).map(normalizeText));
+
+    for (const variant of variants) {
+        const normalized = normalizeText(variant);
+        if (ownVariants.has(normalized)) {
+            continue;
+        }
+        const other = current.find(
+            p => p.id !== ownerId && p.variants.some(v => normalizeText(v) === normalized)
+        );
+        if (other) {
+            throw new GazetteerError(
+                'DUPLICATE_VARIANT',
+                `Variant "${variant}" is already used by place ${other.id} (${other.canonicalName})`
+            );
+        }
+    }
+}
+
+/**
+ * Make sure the canonical name is matchable by listing it among the variants
+ */
+function withCanonicalVariant(canonicalName: string, variants: string[]): string[] {
+    const normalizedName = normalizeText(canonicalName);
+    return variants.some(v => normalizeText(v) === normalizedName)
+        ? variants
+        : [canonicalName, ...variants];
+}
+
+/**
+ * Check a whole place list (a reloaded file) with the rules admin edits follow;
+ * `previous` is the live list, for the duplicate-variant rule
+ */
+function validatePlaces(next: unknown[], previous: Place[]): void {
+    const ids = new Set<number>();
+    for (const [index, entry] of next.entries()) {
+        const place = entry as Place;
+        const label = Number.isInteger(place?.id) ? `Place ${place.id}` : `Entry ${index}`;
+        try {
+            if (typeof place !== 'object' || place === null) {
+                throw new GazetteerError('VALIDATION_ERROR', 'must be an object');
+            }
+            if (!Number.isInteger(place.id) || place.id <= 0) {
+                throw new GazetteerError('VALIDATION_ERROR', '"id" must be a positive integer');
+            }
+            if (ids.has(place.id)) {
+                throw new GazetteerError('DUPLICATE_ID', '"id" is used by more than one place');
+            }
+            ids.add(place.id);
+
+            validateCanonicalName(place.canonicalName);
+            validateCoordinates(place.lat, place.lon);
+            if (sanitizeVariants(place.variants).length === 0) {
+                throw new GazetteerError('VALIDATION_ERROR', 'A place must keep at least one variant');
+            }
+            assertNoDuplicateVariants(next as Place[], place.id, place.variants, previous);
+            if (place.category !== undefined) {
+                validateCategory(place.category);
+            }
+            validateParentId(next as Place[], place.id, place.parentId);
+            validatePolygon(place.polygon);
+        } catch (error) {
+            if (error instanceof GazetteerError) {
+                throw new GazetteerError(error.code, `${label}: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+}
+
+export function createPlace(input: PlaceInput): Promise<Place> {
+    return mutate((current) => {
+        const canonicalName = validateCanonicalName(input.canonicalName);
+        const { lat, lon } = validateCoordinates(input.lat, input.lon);
+        const variants = withCanonicalVariant(canonicalName, sanitizeVariants(input.variants ?? []));
+
+        let id: number;
+        if (input.id === undefined) {
+            id = current.reduce((max, p) => Math.max(max, p.id), 0) + 1;
+        } else {
+            if (!Number.isInteger(input.id) || input.id <= 0) {
+                throw new GazetteerError('VALIDATION_ERROR', '"id" must be a positive integer');
+            }
+            if (current.some(p => p.id === input.id)) {
+                throw new GazetteerError('DUPLICATE_ID', `Place ${input.id} already exists`);
+            }
+            id = input.id;
+        }
+
+        assertNoDuplicateVariants(current, id, variants);
+
+        const category = validateCategory(input.category ?? 'other');
+        const parentId = validateParentId(current, id, input.parentId);
+        const polygon = validatePolygon(input.polygon);
+
+        const place: Place = { id, canonicalName, category, parentId, polygon, variants, lat, lon };
+        return { next: [...current, place], result: place };
+    });
+}
+
+export function updatePlace(id: number, patch: PlacePatch): Promise<Place> {
+    return mutate((current) => {
+        const existing = findOrThrow(current, id);
+
+        const canonicalName = patch.canonicalName === undefined
+            ? existing.canonicalName
+            : validateCanonicalName(patch.canonicalName);
+        const { lat, lon } = validateCoordinates(patch.lat ?? existing.lat, patch.lon ?? existing.lon);
+        const variants = withCanonicalVariant(
+            canonicalName,
+            patch.variants === undefined ? existing.variants : sanitizeVariants(patch.variants)
+        );
+
+        assertNoDuplicateVariants(current, id, variants);
+
+        const category = patch.category === undefined ? existing.category ?? 'other' : validateCategory(patch.category);
+        if (category !== 'district') {
+            assertNoChildren(current, id, 'recategorize');
+        }
+        const parentId = patch.parentId === undefined
+            ? existing.parentId ?? null
+            : validateParentId(current, id, patch.parentId);
+        const polygon = patch.polygon === undefined ? existing.polygon ?? null : validatePolygon(patch.polygon);
+
+        const place: Place = { ...existing, canonicalName, category, parentId, polygon, variants, lat, lon };
+        return { next: current.map(p => (p.id === id ? place : p)), result: place };
+    });
+}
+
+export function deletePlace(id: number): Promise<Place> {
+    return mutate((current) => {
+        const existing = findOrThrow(current, id);
+        assertNoChildren(current, id, 'delete');
+        return { next: current.filter(p => p.id !== id), result: existing };
+    });
+}
+
+export function addVariants(id: number, variants: string[]): Promise<Place> {
+    return mutate((current) => {
+        const existing = findOrThrow(current, id);
+        const added = sanitizeVariants(variants);
+        if (added.length === 0) {
+            throw new GazetteerError('VALIDATION_ERROR', 'No non-empty variants provided');
+        }
+
+        assertNoDuplicateVariants(current, id, added);
+
+        const ownVariants = new Set(existing.variants.map(normalizeText));
+        const place: Place = {
+            ...existing,
+            variants: [...existing.variants, ...added.filter(v => !ownVariants.has(normalizeText(v)))],
+        };
+        return { next: current.map(p => (p.id === id ? place : p)), result: place };
+    });
+}
+
+export function removeVariant(id: number, variant: string): Promise<Place> {
+    return mutate((current) => {
+        const existing = findOrThrow(current, id);
+        const normalized = normalizeText(variant);
+        const remaining = existing.variants.filter(v => normalizeText(v) !== normalized);
+
+        if (remaining.length === existing.variants.length) {
+            throw new GazetteerError('VALIDATION_ERROR', `Place ${id} has no variant "${variant}"`);
+        }
+        if (remaining.length === 0) {
+            throw new GazetteerError('VALIDATION_ERROR', 'A place must keep at least one variant');
+        }
+
+        const place: Place = { ...existing, variants: remaining };
+        return { next: current.map(p => (p.id === id ? place : p)), result: place };
+    });
+}
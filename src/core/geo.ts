@@ -0,0 +1,82 @@
+/**
+ * Geographic helpers for Nouakchott
+ */
+
+// Generous bounding box around greater Nouakchott (all gazetteer places must fall inside)
+export const NOUAKCHOTT_BOUNDS = {
+    minLat: 17.85,
+    maxLat: 18.35,
+    minLon: -16.2,
+    maxLon: -15.75,
+};
+
+/**
+ * Check whether a coordinate lies within the Nouakchott bounding box
+ */
+export function isWithinNouakchott(lat: number, lon: number): boolean {
+    return (
+        lat >= NOUAKCHOTT_BOUNDS.minLat &&
+        lat <= NOUAKCHOTT_BOUNDS.maxLat &&
+        lon >= NOUAKCHOTT_BOUNDS.minLon &&
+        lon <= NOUAKCHOTT_BOUNDS.maxLon
+    );
+}
+
+/**
+ * Ray-casting point-in-polygon test; the polygon is a list of [lat, lon] vertices
+ * (closing the ring is optional)
+ */
+export function pointInPolygon(lat: number, lon: number, polygon: Array<[number, number]>): boolean {
+    let inside = false;
+    for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+        const [latI, lonI] = polygon[i];
+        const [latJ, lonJ] = polygon[j];
+        const crosses = (latI > lat) !== (latJ > lat) &&
+            lon < ((lonJ - lonI) * (lat - latI)) / (latJ - latI) + lonI;
+        if (crosses) {
+            inside = !inside;
+        }
+    }
+    return inside;
+}
+
+export interface GeoPoint {
+    lat: number;
+    lon: number;
+}
+
+// City centre, used to bias external searches when the rider's position is unknown
+export const NOUAKCHOTT_CENTER: GeoPoint = { lat: 18.0858, lon: -15.9785 };
+
+const EARTH_RADIUS_KM = 6371;
+
+/**
+ * Great-circle distance in kilometres (haversine formula)
+ */
+export function haversineKm(from: GeoPoint, to: GeoPoint): number {
+    const toRadians = (degrees: number) => (degrees * Math.PI) / 180;
+    const dLat = toRadians(to.lat - from.lat);
+    const dLon = toRadians(to.lon - from.lon);
+    const a = Math.sin(dLat / 2) ** 2 +
+        Math.cos(toRadians(from.lat)) * Math.cos(toRadians(to.lat)) * Math.sin(dLon / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+}
+
+/**
+ * Read an optional position from request fields (numbers, or numeric strings as sent
+ * in multipart forms). Returns undefined when both are absent and null when invalid.
+ */
+export function parseGeoPoint(lat: unknown, lon: unknown): GeoPoint | null | undefined {
+    const isBlank = (value: unknown) => value === undefined || value === null || value === '';
+    if (isBlank(lat) && isBlank(lon)) {
+        return undefined;
+    }
+
+    const toNumber = (value: unknown) =>
+        typeof value === 'number' ? value : typeof value === 'string' && value.trim() ? Number(value) : NaN;
+    const point = { lat: toNumber(lat), lon: toNumber(lon) };
+    if (!Number.isFinite(point.lat) || !Number.isFinite(point.lon) || Math.abs(point.lat) > 90 || Math.abs(point.lon) > 180) {
+        return null;
+    }
+    return point;
+}
@@ -0,0 +1,93 @@
+/**
+ * External geocoders used when a destination is not in the gazetteer
+ *
+ * Providers are tried in GEOCODER_PROVIDERS order; the first one returning places
+ * inside Nouakchott wins. Results outside the city bounding box are dropped, whatever
+ * the provider's own filtering.
+ */
+import { config, GeocoderProviderName } from '../config/env';
+import { GeoPoint, isWithinNouakchott } from './geo';
+import { createGoogleGeocoder } from './googleGeocoder';
+import { createNominatimGeocoder } from './nominatimGeocoder';
+import { createMockGeocoder } from './mockGeocoder';
+
+export interface GeocodeQuery {
+    text: string; // Destination text as spoken (intent phrases removed, letters not folded)
+    near?: GeoPoint; // Rider's position, to bias results
+    limit: number;
+}
+
+export interface GeocodedPlace {
+    name: string;
+    lat: number;
+    lon: number;
+    formattedAddress: string | null;
+    externalId: string | null; // Provider's own id (Google place_id, OSM type/id…)
+    provider: GeocoderProviderName;
+    attribution: string; // Credit the provider's terms require alongside its data
+}
+
+export interface Geocoder {
+    readonly name: GeocoderProviderName;
+    search(query: GeocodeQuery): Promise<GeocodedPlace[]>;
+}
+
+const FACTORIES: Record<GeocoderProviderName, () => Geocoder> = {
+    google: createGoogleGeocoder,
+    nominatim: createNominatimGeocoder,
+    mock: createMockGeocoder,
+};
+
+let geocoders: Geocoder[] | null = null;
+
+/**
+ * Providers selected by GEOCODER_PROVIDERS (created on first use); providers that
+ * cannot be configured (e.g. Google without an API key) are skipped
+ */
+function getGeocoders(): Geocoder[] {
+    if (!geocoders) {
+        geocoders = [];
+        for (const name of config.geocoderProviders) {
+            try {
+                geocoders.push(FACTORIES[name]());
+            } catch (error) {
+                console.log(`[Geocoder] Skipping ${name}: ${error instanceof Error ? error.message : error}`);
+            }
+        }
+    }
+    return geocoders;
+}
+
+/**
+ * Search the configured providers for places inside Nouakchott
+ *
+ * Throws when every provider threw (an outage, as opposed to no results), so the
+ * geocoder stage is reported as failed and the no-match answer is not cached.
+ */
+export async function searchExternalPlaces(query: GeocodeQuery): Promise<GeocodedPlace[]> {
+    if (!query.text.trim()) {
+        return [];
+    }
+
+    const providers = getGeocoders();
+    const errors: string[] = [];
+    for (const geocoder of providers) {
+        try {
+            const results = await geocoder.search(query);
+            const inCity = results.filter(place => isWithinNouakchott(place.lat, place.lon));
+            console.log(`[Geocoder] ${geocoder.name}: ${results.length} result(s), ${inCity.length} inside Nouakchott for "${query.text}"`);
+            if (inCity.length > 0) {
+                return inCity.slice(0, query.limit);
+            }
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            console.error(`[Geocoder] ${geocoder.name} search failed:`, message);
+            errors.push(`${geocoder.name}: ${message}`);
+        }
+    }
+
+    if (providers.length > 0 && errors.length === providers.length) {
+        throw new Error(`Every geocoder failed (${errors.join('; ')})`);
+    }
+    return [];
+}
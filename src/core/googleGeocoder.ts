@@ -0,0 +1,87 @@
+import { config } from '../config/env';
+import { NOUAKCHOTT_CENTER } from './geo';
+import { Geocoder, GeocodeQuery, GeocodedPlace } from './geocoder';
+
+// Bias radius around the rider, and around the city centre when their position is unknown
+const RIDER_BIAS_RADIUS_METERS = 5000;
+const CITY_BIAS_RADIUS_METERS = 20000;
+
+interface TextSearchResponse {
+    status: string;
+    results?: Array<{
+        name: string;
+        formatted_address?: string;
+        place_id?: string;
+        geometry?: {
+            location: {
+                lat: number;
+                lng: number;
+            };
+        };
+    }>;
+    error_message?: string;
+}
+
+/**
+ * Create a geocoder backed by the Google Places API Text Search
+ */
+export function createGoogleGeocoder(): Geocoder {
+    const apiKey = config.googleMapsApiKey;
+    if (!apiKey) {
+        throw new Error('GOOGLE_MAPS_API_KEY is not set');
+    }
+
+    return {
+        name: 'google',
+
+        async search(query: GeocodeQuery): Promise<GeocodedPlace[]> {
+            // Biased towards the rider (or Nouakchott) and Mauritania
+            const center = query.near ?? NOUAKCHOTT_CENTER;
+            const radius = query.near ? RIDER_BIAS_RADIUS_METERS : CITY_BIAS_RADIUS_METERS;
+            const params = new URLSearchParams({
+                query: query.text,
+                location: `${center.lat},${center.lon}`,
+                radius: String(radius),
+                region: 'mr',
+                key: apiKey,
+            });
+            const url = `https://maps.googleapis.com/maps/api/place/textsearch/json?${params.toString()}`;
+
+            console.log(`[GoogleMaps] Searching for: "${query.text}" near ${center.lat},${center.lon} (${radius} m)`);
+
+            const response = await fetch(url, { signal: AbortSignal.timeout(config.geocoderTimeoutMs) });
+            if (!response.ok) {
+                throw new Error(`Google Places responded ${response.status} ${response.statusText}`);
+            }
+
+            const data = await response.json() as TextSearchResponse;
+
+            if (data.status === 'ZERO_RESULTS') {
+                return [];
+            }
+            if (data.status !== 'OK') {
+                // If billing not enabled, point at the fix
+                if (data.status === 'REQUEST_DENIED' && data.error_message?.includes('Billing')) {
+                    console.warn('[GoogleMaps] Billing not enabled. Please enable billing in Google Cloud Console to use Google Maps search.');
+                }
+                throw new Error(`Google Places status ${data.status}${data.error_message ? `: ${data.error_message}` : ''}`);
+            }
+
+            return (data.results ?? []).flatMap((place) => {
+                const location = place.geometry?.location;
+                if (!location) {
+                    return [];
+                }
+                return [{
+                    name: place.name,
+                    lat: location.lat,
+                    lon: location.lng,
+                    formattedAddress: place.formatted_address ?? null,
+                    externalId: place.place_id ?? null,
+                    provider: 'google' as const,
+                    attribution: 'Google',
+                }];
+            });
+        },
+    };
+}
@@ -0,0 +1,42 @@
+/**
+ * Small helpers for JSON files used as local persistent stores
+ */
+import path from 'path';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+
+/**
+ * Read and parse a JSON file, returning the fallback when the file does not exist
+ */
+export async function readJsonFile<T>(filePath: string, fallback: T): Promise<T> {
+    try {
+        return JSON.parse(await fs.readFile(filePath, 'utf8')) as T;
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return fallback;
+        }
+        throw error;
+    }
+}
+
+/**
+ * Write a JSON file atomically: write to a temporary file in the same directory,
+ * then rename it over the target so readers never see a partial file
+ */
+export async function writeJsonFileAtomic(filePath: string, data: unknown): Promise<void> {
+    const dir = path.dirname(filePath);
+    await fs.mkdir(dir, { recursive: true });
+
+    const tmpPath = path.join(
+        dir,
+        `.${path.basename(filePath)}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`
+    );
+
+    try {
+        await fs.writeFile(tmpPath, JSON.stringify(data, null, 4) + '\n', 'utf8');
+        await fs.rename(tmpPath, filePath);
+    } catch (error) {
+        await fs.unlink(tmpPath).catch(() => undefined);
+        throw error;
+    }
+}
@@ -1,47 +1,133 @@
-import OpenAI from "openai";
 import { config } from "../config/env";
 import { Place } from "./destinationMatcher";
-
-const openai = new OpenAI({
-  apiKey: config.openaiApiKey,
-});
+import { LLMProvider, LLMMessage } from "./llmProvider";
+import { createOpenAILLMProvider } from "./openaiLLMProvider";
+import { createLocalLLMProvider } from "./localLLMProvider";
 
 export interface LLMMatchResult {
   destinationId: number | null;
   confidence: number;
   reasoning: string;
+  provider: string | null; // null when no LLM provider is available
+  attempts: number; // Requests sent, including retries after invalid replies
+}
+
+// undefined until the first call, null when the configured provider cannot be created
+let provider: LLMProvider | null | undefined;
+
+/**
+ * Get the provider selected by LLM_BACKEND (created on first use)
+ * Returns null when it is not configured, e.g. OpenAI without an API key
+ */
+function getLLMProvider(): LLMProvider | null {
+  if (provider === undefined) {
+    try {
+      provider = config.llmBackend === "local"
+        ? createLocalLLMProvider()
+        : createOpenAILLMProvider();
+      console.log(`[LLM] Using ${provider.name}`);
+    } catch (error) {
+      console.warn(`[LLM] LLM matching unavailable: ${error instanceof Error ? error.message : error}`);
+      provider = null;
+    }
+  }
+  return provider;
+}
+
+/**
+ * Validate a model reply: a JSON object (optionally in a code fence) with an integer
+ * destinationId from the shortlist or null, a confidence in [0, 1] and a reasoning string
+ */
+function parseReply(
+  content: string,
+  shortlist: Place[]
+): Pick<LLMMatchResult, "destinationId" | "confidence" | "reasoning"> {
+  let data: unknown;
+  try {
+    data = JSON.parse(content.trim().replace(/^```(?:json)?\s*|\s*```$/g, ""));
+  } catch {
+    throw new Error("the reply is not valid JSON");
+  }
+  if (!data || typeof data !== "object" || Array.isArray(data)) {
+    throw new Error("the reply must be a JSON object");
+  }
+
+  const { destinationId, confidence, reasoning } = data as Record<string, unknown>;
+  if (destinationId !== null && !Number.isInteger(destinationId)) {
+    throw new Error('"destinationId" must be an integer or null');
+  }
+  if (destinationId !== null && !shortlist.some((p) => p.id === destinationId)) {
+    throw new Error(`"destinationId" ${destinationId} is not one of the listed destinations`);
+  }
+  if (typeof confidence !== "number" || !Number.isFinite(confidence) || confidence < 0 || confidence > 1) {
+    throw new Error('"confidence" must be a number between 0 and 1');
+  }
+  if (reasoning !== undefined && typeof reasoning !== "string") {
+    throw new Error('"reasoning" must be a string');
+  }
+
+  return {
+    destinationId: destinationId as number | null,
+    confidence: destinationId === null ? 0 : confidence,
+    reasoning: reasoning ?? "",
+  };
 }
 
 /**
- * Use GPT to intelligently match a transcript to a destination
+ * Use an LLM to intelligently match a transcript to a destination
  * This handles cases where fuzzy matching fails due to ASR errors or dialectal variations
+ *
+ * Only the shortlisted places (the closest fuzzy candidates) are listed in the prompt.
+ * Replies that break the schema are sent back for correction, and failed requests are
+ * retried, up to LLM_MAX_RETRIES times. Throws when the last attempt fails to get a reply;
+ * a reply that is still invalid yields no match.
  */
 export async function matchWithLLM(
   transcript: string,
-  places: Place[]
+  shortlist: Place[]
 ): Promise<LLMMatchResult> {
-  try {
-    // Build the prompt with all available destinations
-    const destinationsList = places
-      .map(
-        (p) =>
-          `- ID ${p.id}: ${p.canonicalName} (Arabic variants: ${p.variants
-            .filter((v) => /[\u0600-\u06FF]/.test(v))
-            .join(", ")})`
-      )
-      .join("\n");
-
-      const prompt = `You are helping match spoken Hassaniya (Mauritanian dialect) destinations to known areas in Nouakchott, Mauritania.
+  const llm = getLLMProvider();
+  if (!llm) {
+    console.log("[LLM] No LLM provider configured, skipping LLM matching");
+    return {
+      destinationId: null,
+      confidence: 0,
+      reasoning: "LLM matching unavailable (no LLM provider configured)",
+      provider: null,
+      attempts: 0,
+    };
+  }
+  if (shortlist.length === 0) {
+    return {
+      destinationId: null,
+      confidence: 0,
+      reasoning: "No destination is close enough to shortlist",
+      provider: llm.name,
+      attempts: 0,
+    };
+  }
+
+  // Build the prompt with the shortlisted destinations
+  const destinationsList = shortlist
+    .map(
+      (p) =>
+        `- ID ${p.id}: ${p.canonicalName} (Arabic variants: ${p.variants
+          .filter((v) => /[\u0600-\u06FF]/.test(v))
+          .join(", ")})`
+    )
+    .join("\n");
+
+    const prompt = `You are helping match spoken Hassaniya (Mauritanian dialect) destinations to known areas in Nouakchott, Mauritania.
 
       The user said (transcribed via Whisper): "${transcript}"
-      
-      Available destinations in Nouakchott:
+
+      Candidate destinations in Nouakchott (the closest spellings to what was heard):
       ${destinationsList}
-      
+
       Task: Determine which destination the user most likely intended to say. Only pick from the provided Nouakchott list. If you are not confident or the name is not in the list, respond with destinationId: null and confidence: 0.
-      
+
       IMPORTANT: Only match destinations that are clearly in the provided list. Do not make up or guess destinations. If unsure, return null.
-      
+
       IMPORTANT - Hassaniya Filler Words & Intent Phrases to IGNORE:
       - "نبغي نمشي" (nabghi nemshi) - I want to go
       - "باغي نمشي" (baghi nemshi) - I want to go
@@ -49,66 +135,86 @@ export async function matchWithLLM(
       - "ان گايس" (ana gayes) - I’m going to
       - "ندور كورس گايس" (ndor course gayes ) - i want a ride to
       - "ندور كورس واعد" (ndor course waiid) - i want a ride going to
-      
+
       FOCUS ONLY on the actual destination name, ignoring all intent phrases and filler words.
-      
+
       Consider:
       1. Phonetic similarity (how words sound in Arabic/Hassaniya)
       2. Common ASR transcription errors (e.g., "كرافور" vs "كارفور")
       3. Hassaniya dialect variations
       4. Extract core destination from surrounding filler words
-      
-      
+
+
       Respond with JSON only:
       {
         "destinationId": <number or null if no match>,
         "confidence": <0.0 to 1.0>,
         "reasoning": "<brief explanation; if null, say not sure, ask user to try again>"
       }`;
-      
 
-    console.log("[LLM] Sending transcript to GPT for intelligent matching...");
+  const messages: LLMMessage[] = [
+    {
+      role: "system",
+      content:
+        "You are an expert in Hassaniya Arabic dialect and Mauritanian geography. You help match spoken destinations to known places.",
+    },
+    {
+      role: "user",
+      content: prompt,
+    },
+  ];
 
-    const response = await openai.chat.completions.create({
-      model: "gpt-4o-mini", // Cost-effective model that's still very capable
-      messages: [
-        {
-          role: "system",
-          content:
-            "You are an expert in Hassaniya Arabic dialect and Mauritanian geography. You help match spoken destinations to known places.",
-        },
-        {
-          role: "user",
-          content: prompt,
-        },
-      ],
-      response_format: { type: "json_object" },
-      temperature: 0.3, // Lower temperature for more consistent results
-      max_tokens: 200,
-    });
-
-    const content = response.choices[0]?.message?.content;
-    if (!content) {
-      throw new Error("No response from GPT");
-    }
+  console.log(`[LLM] Sending transcript to ${llm.name} with ${shortlist.length} shortlisted destinations...`);
 
-    const result: LLMMatchResult = JSON.parse(content);
+  const maxAttempts = config.llmMaxRetries + 1;
+  let problem = "";
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    let content: string;
+    try {
+      content = await llm.completeJson({
+        messages,
+        temperature: 0.3, // Lower temperature for more consistent results
+        maxTokens: 200,
+      });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`[LLM] Request failed (attempt ${attempt}/${maxAttempts}): ${message}`);
 
-    console.log(
-      `[LLM] Match result: Destination ID ${result.destinationId
-      }, Confidence: ${result.confidence.toFixed(2)}, Reasoning: ${result.reasoning
-      }`
-    );
+      // Provider or transport error: the stage failed, it did not find "no match"
+      if (attempt === maxAttempts) {
+        throw new Error(`LLM request failed after ${maxAttempts} attempt(s): ${message}`);
+      }
+      continue;
+    }
 
-    return result;
-  } catch (error) {
-    console.error("[LLM] Error during LLM matching:", error);
+    try {
+      const result = parseReply(content, shortlist);
+      console.log(
+        `[LLM] Match result: Destination ID ${result.destinationId
+        }, Confidence: ${result.confidence.toFixed(2)}, Reasoning: ${result.reasoning
+        }`
+      );
+      return { ...result, provider: llm.name, attempts: attempt };
+    } catch (error) {
+      problem = error instanceof Error ? error.message : String(error);
+      console.warn(`[LLM] Invalid reply (attempt ${attempt}/${maxAttempts}): ${problem}`);
 
-    // Return a safe fallback
-    return {
-      destinationId: null,
-      confidence: 0,
-      reasoning: "LLM matching failed due to an error",
-    };
+      // Show the model its reply and what was wrong with it
+      messages.push(
+        { role: "assistant", content },
+        {
+          role: "user",
+          content: `Your reply was invalid: ${problem}. Respond again with the JSON object only, using an ID from the list or null.`,
+        }
+      );
+    }
   }
+
+  return {
+    destinationId: null,
+    confidence: 0,
+    reasoning: `No valid LLM reply after ${maxAttempts} attempt(s): ${problem}`,
+    provider: llm.name,
+    attempts: maxAttempts,
+  };
 }
@@ -0,0 +1,20 @@
+/**
+ * LLM provider abstraction so the matching LLM can be swapped by configuration
+ */
+
+export interface LLMMessage {
+    role: 'system' | 'user' | 'assistant';
+    content: string;
+}
+
+export interface LLMCompletionRequest {
+    messages: LLMMessage[];
+    temperature: number;
+    maxTokens: number;
+}
+
+export interface LLMProvider {
+    readonly name: string;
+    // Returns the raw reply, asked for as a JSON object (validation is up to the caller)
+    completeJson(request: LLMCompletionRequest): Promise<string>;
+}
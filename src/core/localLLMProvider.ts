@@ -0,0 +1,52 @@
+import { config } from '../config/env';
+import { LLMProvider, LLMCompletionRequest } from './llmProvider';
+
+interface ChatCompletionResponse {
+    choices?: Array<{
+        message?: {
+            content?: string | null;
+        };
+    }>;
+}
+
+/**
+ * Create an LLM provider backed by a local server exposing the OpenAI-compatible
+ * `/chat/completions` endpoint (llama.cpp `llama-server`, Ollama, vLLM…), so the LLM
+ * stage can run without network access
+ */
+export function createLocalLLMProvider(): LLMProvider {
+    const model = config.llmModel;
+    if (!model) {
+        throw new Error('LLM_MODEL is not set. It is required when LLM_BACKEND=local (e.g. "qwen2.5:7b-instruct" for Ollama).');
+    }
+
+    return {
+        name: `local:${model}`,
+
+        async completeJson(request: LLMCompletionRequest): Promise<string> {
+            const response = await fetch(`${config.localLlmUrl}/chat/completions`, {
+                method: 'POST',
+                headers: {
+                    'Content-Type': 'application/json',
+                    ...(config.localLlmApiKey ? { Authorization: `Bearer ${config.localLlmApiKey}` } : {}),
+                },
+                body: JSON.stringify({
+                    model,
+                    messages: request.messages,
+                    response_format: { type: 'json_object' },
+                    temperature: request.temperature,
+                    max_tokens: request.maxTokens,
+                    stream: false,
+                }),
+                signal: AbortSignal.timeout(config.llmTimeoutMs),
+            });
+
+            if (!response.ok) {
+                throw new Error(`Local LLM server responded ${response.status} ${response.statusText}`);
+            }
+
+            const data = await response.json() as ChatCompletionResponse;
+            return data.choices?.[0]?.message?.content ?? '';
+        },
+    };
+}
@@ -0,0 +1,110 @@
+import { execFile } from 'child_process';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { Transcriber, TranscriptionInput, TranscriptionOutput, parseVerboseSegments } from './transcriber';
+
+/**
+ * Transcribe through a local HTTP server speaking the whisper.cpp `/inference` protocol
+ * (whisper.cpp `whisper-server`, or any server accepting the same multipart fields)
+ *
+ * Segments are requested with `verbose_json`; a server answering in plain text still works.
+ */
+async function transcribeOverHttp(input: TranscriptionInput): Promise<TranscriptionOutput> {
+    const form = new FormData();
+    form.append('file', new Blob([input.buffer], { type: input.mimeType }), `audio.${input.extension}`);
+    form.append('response_format', 'verbose_json');
+    form.append('temperature', String(input.temperature));
+    if (input.language) {
+        form.append('language', input.language);
+    }
+    if (input.prompt) {
+        form.append('prompt', input.prompt);
+    }
+
+    const response = await fetch(config.localAsrUrl, {
+        method: 'POST',
+        body: form,
+        signal: AbortSignal.timeout(config.localAsrTimeoutMs),
+    });
+
+    if (!response.ok) {
+        throw new Error(`Local ASR server responded ${response.status} ${response.statusText}`);
+    }
+
+    const body = await response.text();
+    try {
+        const data = JSON.parse(body);
+        if (data && typeof data.text === 'string') {
+            return { text: data.text, segments: parseVerboseSegments(data.segments) };
+        }
+    } catch {
+        // Plain-text reply
+    }
+    return { text: body, segments: null };
+}
+
+/**
+ * Transcribe by running a local command (e.g. whisper.cpp `whisper-cli` or a faster-whisper script)
+ *
+ * The command line comes from LOCAL_ASR_COMMAND. The placeholders `{input}`, `{language}`
+ * and `{prompt}` are substituted per argument; the transcript is read from stdout.
+ */
+async function transcribeWithCommand(input: TranscriptionInput): Promise<TranscriptionOutput> {
+    const [command, ...argTemplates] = config.localAsrCommand.split(/\s+/).filter(Boolean);
+    if (!command) {
+        throw new Error('LOCAL_ASR_COMMAND is not set. It is required when LOCAL_ASR_MODE=command.');
+    }
+
+    const tmpPath = path.join(
+        os.tmpdir(),
+        `asr_${Date.now()}_${crypto.randomBytes(4).toString('hex')}.${input.extension}`
+    );
+    await fs.writeFile(tmpPath, input.buffer);
+
+    const args = argTemplates.map((arg) =>
+        arg
+            .replace('{input}', tmpPath)
+            .replace('{language}', input.language || 'auto')
+            .replace('{prompt}', input.prompt)
+    );
+
+    try {
+        const text = await new Promise<string>((resolve, reject) => {
+            execFile(
+                command,
+                args,
+                { timeout: config.localAsrTimeoutMs, maxBuffer: 1024 * 1024 },
+                (error, stdout, stderr) => {
+                    if (error) {
+                        reject(new Error(`${command} failed: ${error.message}${stderr ? ` (${stderr.trim()})` : ''}`));
+                        return;
+                    }
+                    resolve(stdout);
+                }
+            );
+        });
+        return { text, segments: null };
+    } finally {
+        fs.unlink(tmpPath).catch(() => undefined);
+    }
+}
+
+/**
+ * Create a transcriber backed by a self-hosted Whisper (no internet access required)
+ */
+export function createLocalTranscriber(): Transcriber {
+    const mode = config.localAsrMode;
+
+    return {
+        name: mode === 'command' ? `local:command:${config.localAsrCommand.split(/\s+/)[0]}` : `local:http:${config.localAsrUrl}`,
+
+        async transcribe(input: TranscriptionInput): Promise<TranscriptionOutput> {
+            return mode === 'command'
+                ? transcribeWithCommand(input)
+                : transcribeOverHttp(input);
+        },
+    };
+}
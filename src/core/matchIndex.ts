@@ -0,0 +1,187 @@
+/**
+ * Precomputed matching index over a place list
+ *
+ * Variants are normalized and their phonetic keys computed once at build time, and
+ * on large gazetteers inverted n-gram indexes narrow each query down to the variants
+ * worth scoring instead of scanning every place × variant × span. Indexes are cached per place
+ * array: the gazetteer swaps its array on every change, so a fresh index is built
+ * automatically for the new version.
+ */
+import { Place } from './destinationMatcher';
+import { normalizeText } from './normalization';
+import { phoneticKey, hasLatin } from './transliteration';
+
+export interface IndexedVariant {
+    place: Place;
+    variant: string; // As written in the gazetteer
+    normalized: string;
+    key: string; // Phonetic key
+    latin: boolean;
+}
+
+export interface QuerySpan {
+    text: string;
+    key: string;
+    latin: boolean;
+}
+
+export interface MatchIndex {
+    variants: IndexedVariant[];
+    candidates(normalizedTranscript: string, spans: QuerySpan[]): IndexedVariant[];
+}
+
+export interface MatchIndexOptions {
+    filterMinVariants?: number; // FILTER_MIN_VARIANTS by default; lower it to test filtering on a small list
+}
+
+// Below this many variants every variant is scored: n-gram filtering can drop weak
+// candidates that only score through cheap alif / long-vowel edits, and the full
+// scan is fast enough at this size
+const FILTER_MIN_VARIANTS = 5000;
+
+// Upper bound on variants scored per query once filtering applies (highest n-gram overlap first)
+const MAX_SCORED_VARIANTS = 1000;
+
+// Letters ASR confuses share a class, so near-misses still share n-grams
+const CONFUSION_CLASSES: Record<string, string> = {
+    'گ': 'ق', 'ك': 'ق', 'غ': 'ق',
+    'ص': 'س', 'ث': 'س',
+    'ط': 'ت',
+    'ض': 'د', 'ظ': 'د', 'ذ': 'د',
+    'ة': 'ه',
+    'ى': 'ي',
+};
+
+/**
+ * Reduce text to the form used for n-gram filtering: no spaces, no alif
+ * (cheap to insert or drop), confusable letters merged
+ */
+function filterForm(text: string): string {
+    let result = '';
+    for (const ch of text) {
+        if (ch === ' ' || ch === 'ا') {
+            continue;
+        }
+        result += CONFUSION_CLASSES[ch] ?? ch;
+    }
+    return result;
+}
+
+function ngrams(text: string, n: number): Set<string> {
+    const grams = new Set<string>();
+    for (let i = 0; i + n <= text.length; i++) {
+        grams.add(text.slice(i, i + n));
+    }
+    return grams;
+}
+
+function addPosting(postings: Map<string, number[]>, gram: string, position: number): void {
+    const list = postings.get(gram);
+    if (list) {
+        list.push(position);
+    } else {
+        postings.set(gram, [position]);
+    }
+}
+
+/**
+ * Build an index over a place list
+ */
+export function buildMatchIndex(places: Place[], options: MatchIndexOptions = {}): MatchIndex {
+    const filterMinVariants = options.filterMinVariants ?? FILTER_MIN_VARIANTS;
+    const variants: IndexedVariant[] = [];
+    const textPostings = new Map<string, number[]>(); // trigram or bigram of filter form → variant positions
+    const keyPostings = new Map<string, number[]>(); // bigram of phonetic key → variant positions
+    const alwaysScored: number[] = []; // Variants too short to have a trigram
+
+    for (const place of places) {
+        for (const variant of place.variants) {
+            const normalized = normalizeText(variant);
+            if (!normalized) {
+                continue;
+            }
+
+            const position = variants.length;
+            const entry: IndexedVariant = {
+                place,
+                variant,
+                normalized,
+                key: phoneticKey(normalized),
+                latin: hasLatin(normalized),
+            };
+            variants.push(entry);
+
+            // Bigrams too, so a short name with one letter misheard still overlaps the query
+            const form = filterForm(normalized);
+            const textGrams = ngrams(form, 3);
+            if (textGrams.size === 0) {
+                alwaysScored.push(position);
+            }
+            for (const gram of [...textGrams, ...ngrams(form, 2)]) {
+                addPosting(textPostings, gram, position);
+            }
+            for (const gram of ngrams(entry.key, 2)) {
+                addPosting(keyPostings, gram, position);
+            }
+        }
+    }
+
+    return {
+        variants,
+
+        candidates(normalizedTranscript: string, spans: QuerySpan[]): IndexedVariant[] {
+            // Short queries may match inside any variant (containment), so keep them unfiltered
+            if (variants.length < filterMinVariants || filterForm(normalizedTranscript).length < 3) {
+                return variants;
+            }
+
+            const overlap = new Map<number, number>();
+            const bump = (position: number) => overlap.set(position, (overlap.get(position) ?? 0) + 1);
+
+            const queryForm = filterForm(normalizedTranscript);
+            for (const gram of [...ngrams(queryForm, 3), ...ngrams(queryForm, 2)]) {
+                textPostings.get(gram)?.forEach(bump);
+            }
+
+            // Phonetic keys only score across scripts, i.e. when either side is Latin
+            const queryLatin = spans.some(span => span.latin);
+            const keyGrams = new Set(spans.flatMap(span => [...ngrams(span.key, 2)]));
+            for (const gram of keyGrams) {
+                for (const position of keyPostings.get(gram) ?? []) {
+                    if (queryLatin || variants[position].latin) {
+                        bump(position);
+                    }
+                }
+            }
+
+            for (const position of alwaysScored) {
+                overlap.set(position, overlap.get(position) ?? 1);
+            }
+
+            // Keep the best-overlapping variants, then restore gazetteer order so that
+            // ties resolve exactly as in a full scan
+            return [...overlap.entries()]
+                .sort((a, b) => b[1] - a[1] || a[0] - b[0])
+                .slice(0, MAX_SCORED_VARIANTS)
+                .map(([position]) => position)
+                .sort((a, b) => a - b)
+                .map(position => variants[position]);
+        },
+    };
+}
+
+const indexCache = new WeakMap<Place[], MatchIndex>();
+
+/**
+ * Get the index for a place list, building it on first use (options only apply then)
+ */
+export function getMatchIndex(places: Place[], options: MatchIndexOptions = {}): MatchIndex {
+    let index = indexCache.get(places);
+    if (!index) {
+        const started = Date.now();
+        index = buildMatchIndex(places, options);
+        indexCache.set(places, index);
+        console.log(`[MatchIndex] Indexed ${index.variants.length} variants of ${places.length} places in ${Date.now() - started}ms`);
+    }
+    return index;
+}
@@ -0,0 +1,50 @@
+import { config } from '../config/env';
+import { Geocoder, GeocodeQuery, GeocodedPlace } from './geocoder';
+
+interface MockSearchResponse {
+    results?: Array<{
+        id?: string | number;
+        name: string;
+        lat: number;
+        lon: number;
+        address?: string;
+    }>;
+}
+
+/**
+ * Create a geocoder backed by a local mock server (see `npm run mock-geocoder`), so the
+ * external fallback can be exercised offline and in tests without API keys.
+ *
+ * Protocol: GET MOCK_GEOCODER_URL?q=&limit=[&lat=&lon=] → { results: [{ id?, name, lat, lon, address? }] }
+ */
+export function createMockGeocoder(): Geocoder {
+    return {
+        name: 'mock',
+
+        async search(query: GeocodeQuery): Promise<GeocodedPlace[]> {
+            const params = new URLSearchParams({ q: query.text, limit: String(query.limit) });
+            if (query.near) {
+                params.set('lat', String(query.near.lat));
+                params.set('lon', String(query.near.lon));
+            }
+
+            const response = await fetch(`${config.mockGeocoderUrl}?${params.toString()}`, {
+                signal: AbortSignal.timeout(config.geocoderTimeoutMs),
+            });
+            if (!response.ok) {
+                throw new Error(`Mock geocoder responded ${response.status} ${response.statusText}`);
+            }
+
+            const data = await response.json() as MockSearchResponse;
+            return (data.results ?? []).map(result => ({
+                name: result.name,
+                lat: result.lat,
+                lon: result.lon,
+                formattedAddress: result.address ?? null,
+                externalId: result.id !== undefined ? String(result.id) : null,
+                provider: 'mock' as const,
+                attribution: 'Mock geocoder',
+            }));
+        },
+    };
+}
@@ -0,0 +1,61 @@
+import { config } from '../config/env';
+import { NOUAKCHOTT_BOUNDS } from './geo';
+import { Geocoder, GeocodeQuery, GeocodedPlace } from './geocoder';
+
+interface NominatimResult {
+    place_id?: number;
+    osm_type?: string;
+    osm_id?: number;
+    lat: string;
+    lon: string;
+    name?: string;
+    display_name?: string;
+}
+
+/**
+ * Create a geocoder backed by Nominatim (OpenStreetMap), the public instance or a
+ * self-hosted one via NOMINATIM_URL. The public instance allows at most one request
+ * per second and requires an identifying User-Agent.
+ */
+export function createNominatimGeocoder(): Geocoder {
+    return {
+        name: 'nominatim',
+
+        async search(query: GeocodeQuery): Promise<GeocodedPlace[]> {
+            const b = NOUAKCHOTT_BOUNDS;
+            const params = new URLSearchParams({
+                q: query.text,
+                format: 'jsonv2',
+                limit: String(query.limit),
+                // Restrict to the city: viewbox is left,top,right,bottom
+                viewbox: `${b.minLon},${b.maxLat},${b.maxLon},${b.minLat}`,
+                bounded: '1',
+                countrycodes: 'mr',
+                'accept-language': 'ar,fr',
+            });
+
+            console.log(`[Nominatim] Searching for: "${query.text}"`);
+
+            const response = await fetch(`${config.nominatimUrl}?${params.toString()}`, {
+                headers: { 'User-Agent': 'hassaniya-destination-api' },
+                signal: AbortSignal.timeout(config.geocoderTimeoutMs),
+            });
+            if (!response.ok) {
+                throw new Error(`Nominatim responded ${response.status} ${response.statusText}`);
+            }
+
+            const results = await response.json() as NominatimResult[];
+            return results
+                .map(result => ({
+                    name: result.name || result.display_name?.split(',')[0] || query.text,
+                    lat: Number(result.lat),
+                    lon: Number(result.lon),
+                    formattedAddress: result.display_name ?? null,
+                    externalId: result.osm_type && result.osm_id ? `${result.osm_type}/${result.osm_id}` : null,
+                    provider: 'nominatim' as const,
+                    attribution: '© OpenStreetMap contributors',
+                }))
+                .filter(place => Number.isFinite(place.lat) && Number.isFinite(place.lon));
+        },
+    };
+}
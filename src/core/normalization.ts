@@ -64,6 +64,14 @@ function removeIntentPhrases(text: string): string {
     return result;
 }
 
+/**
+ * Character-level folding only (case, diacritics, letter variants), for comparing
+ * words without the phrase removal done by normalizeText
+ */
+export function foldText(input: string): string {
+    return normalizeArabicChars(removeDiacritics(input.toLowerCase()));
+}
+
 /**
  * Main normalization function for Arabic/Hassaniya text
  * Applies all normalization steps in the correct order
@@ -73,16 +81,8 @@ export function normalizeText(input: string): string {
         return '';
     }
 
-    let normalized = input.trim();
-
-    // 1. Convert to lowercase
-    normalized = normalized.toLowerCase();
-
-    // 2. Remove diacritics
-    normalized = removeDiacritics(normalized);
-
-    // 3. Normalize Arabic characters
-    normalized = normalizeArabicChars(normalized);
+    // 1-3. Lowercase, remove diacritics, normalize Arabic characters
+    let normalized = foldText(input.trim());
 
     // 4. Remove intent phrases
     normalized = removeIntentPhrases(normalized);
@@ -96,6 +96,49 @@ export function normalizeText(input: string): string {
     return normalized;
 }
 
+/**
+ * Part of an original transcript that normalizes to a span of its normalized form (a
+ * trip stop, a relation's anchor), in the rider's own spelling: letter variants,
+ * diacritics and case are kept, intent phrases and other words outside the span are
+ * not. The span's first word may have lost an attached prefix ("لتوجنين" → "توجنين"),
+ * which is dropped from the original word as well. Returns null when the span is not
+ * found; the last occurrence wins, as destinations come last.
+ */
+export function findOriginalSpan(original: string, normalizedSpan: string): string | null {
+    const span = normalizedSpan.split(/\s+/).filter(Boolean);
+    const words = original.trim().split(/\s+/)
+        .map(word => ({ word, folded: foldText(word) }))
+        .filter(({ folded }) => folded.length > 0);
+    if (span.length === 0) {
+        return null;
+    }
+
+    for (let start = words.length - span.length; start >= 0; start--) {
+        const first = words[start];
+        const matches = first.folded.endsWith(span[0]) &&
+            span.slice(1).every((token, offset) => words[start + 1 + offset].folded === token);
+        if (!matches) {
+            continue;
+        }
+
+        // Drop the original characters that fold to the missing prefix
+        let prefix = first.folded.length - span[0].length;
+        let cut = 0;
+        const chars = [...first.word];
+        while (prefix > 0 && cut < chars.length) {
+            prefix -= foldText(chars[cut]).length;
+            cut++;
+        }
+        // Characters that fold away (diacritics, tatweel) belong to the dropped prefix
+        while (cut < chars.length && !foldText(chars[cut])) {
+            cut++;
+        }
+        const head = chars.slice(cut).join('');
+        return [head, ...words.slice(start + 1, start + span.length).map(({ word }) => word)].join(' ');
+    }
+    return null;
+}
+
 /**
  * Generate n-grams from an array of tokens
  * Used to extract candidate location spans from the transcript
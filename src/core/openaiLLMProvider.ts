@@ -0,0 +1,33 @@
+import OpenAI from 'openai';
+import { config } from '../config/env';
+import { LLMProvider, LLMCompletionRequest } from './llmProvider';
+
+/**
+ * Create an LLM provider backed by the OpenAI chat completions API
+ */
+export function createOpenAILLMProvider(): LLMProvider {
+    if (!config.openaiApiKey) {
+        throw new Error('OPENAI_API_KEY is not set. It is required when LLM_BACKEND=openai.');
+    }
+
+    const openai = new OpenAI({
+        apiKey: config.openaiApiKey,
+        timeout: config.llmTimeoutMs,
+    });
+    const model = config.llmModel;
+
+    return {
+        name: `openai:${model}`,
+
+        async completeJson(request: LLMCompletionRequest): Promise<string> {
+            const response = await openai.chat.completions.create({
+                model,
+                messages: request.messages,
+                response_format: { type: 'json_object' },
+                temperature: request.temperature,
+                max_tokens: request.maxTokens,
+            });
+            return response.choices[0]?.message?.content ?? '';
+        },
+    };
+}
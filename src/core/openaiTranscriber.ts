@@ -0,0 +1,47 @@
+import OpenAI from 'openai';
+import { config } from '../config/env';
+import { Transcriber, TranscriptionInput, TranscriptionOutput, parseVerboseSegments } from './transcriber';
+
+/**
+ * Create a transcriber backed by the OpenAI transcription API (Whisper / gpt-4o-transcribe)
+ */
+export function createOpenAITranscriber(): Transcriber {
+    if (!config.openaiApiKey) {
+        throw new Error('OPENAI_API_KEY is not set. It is required when ASR_BACKEND=openai.');
+    }
+
+    // Initialize OpenAI client with timeout
+    const openai = new OpenAI({
+        apiKey: config.openaiApiKey,
+        timeout: 60000, // 60 second timeout
+    });
+
+    const model = config.openaiTranscribeModel || 'gpt-4o-transcribe';
+
+    return {
+        name: `openai:${model}`,
+
+        async transcribe(input: TranscriptionInput): Promise<TranscriptionOutput> {
+            // Create a File-like object from the buffer
+            const file = new File([input.buffer], `audio.${input.extension}`, { type: input.mimeType });
+            const params = {
+                file: file,
+                model: input.model ?? model,
+                language: input.language,
+                temperature: input.temperature,
+                prompt: input.prompt || undefined,
+            };
+
+            // Only whisper-1 returns segments with no-speech / log-probability statistics
+            if (params.model.startsWith('whisper')) {
+                const response = await openai.audio.transcriptions.create({ ...params, response_format: 'verbose_json' });
+                return { text: response.text, segments: parseVerboseSegments(response.segments) };
+            }
+
+            const response = await openai.audio.transcriptions.create({ ...params, response_format: 'text' });
+
+            // When response_format is 'text', the response is a string directly
+            return { text: String(response), segments: null };
+        },
+    };
+}
@@ -0,0 +1,48 @@
+/**
+ * Place categories and the district hierarchy
+ *
+ * A POI belongs to a district either explicitly (`parentId`) or because its
+ * coordinates fall inside the district's polygon.
+ */
+import { Place } from './destinationMatcher';
+import { pointInPolygon } from './geo';
+
+export const PLACE_CATEGORIES = [
+    'district',
+    'neighbourhood',
+    'market',
+    'mosque',
+    'restaurant',
+    'cafe',
+    'clinic',
+    'hospital',
+    'hotel',
+    'school',
+    'shop',
+    'landmark',
+    'other',
+] as const;
+
+export type PlaceCategory = typeof PLACE_CATEGORIES[number];
+
+export function isPlaceCategory(value: unknown): value is PlaceCategory {
+    return typeof value === 'string' && (PLACE_CATEGORIES as readonly string[]).includes(value);
+}
+
+export function isDistrict(place: Place): boolean {
+    return place.category === 'district';
+}
+
+/**
+ * District containing a place: its explicit parent, else the first district
+ * polygon containing its coordinates, else null (districts have no parent)
+ */
+export function findParentDistrict(place: Place, places: Place[]): Place | null {
+    if (isDistrict(place)) {
+        return null;
+    }
+    if (place.parentId !== undefined && place.parentId !== null) {
+        return places.find(p => p.id === place.parentId) ?? null;
+    }
+    return places.find(p => isDistrict(p) && !!p.polygon && pointInPolygon(place.lat, place.lon, p.polygon)) ?? null;
+}
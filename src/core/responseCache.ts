@@ -0,0 +1,220 @@
+/**
+ * In-memory LRU caches with TTLs for expensive pipeline steps (ASR, matching)
+ *
+ * Retries on flaky mobile data replay the same clip / transcript; a cache hit skips the
+ * paid ASR, LLM and geocoder calls. With CACHE_PERSIST the caches are written to
+ * $CACHE_DIR/<name>.json (debounced, and on shutdown) and reloaded on start.
+ */
+import path from 'path';
+import crypto from 'crypto';
+import { config } from '../config/env';
+import { readJsonFile, writeJsonFileAtomic } from './jsonFileStore';
+
+export interface CacheStats {
+    name: string;
+    enabled: boolean;
+    persisted: boolean;
+    size: number;
+    maxEntries: number;
+    ttlSeconds: number;
+    hits: number;
+    misses: number;
+    hitRate: number | null; // null until the first lookup
+    evictions: number; // Dropped to stay under maxEntries
+    expirations: number; // Dropped because their TTL passed
+}
+
+export interface ResponseCache<T> {
+    readonly name: string;
+    get(key: string): T | undefined;
+    set(key: string, value: T): void;
+    purge(): number; // Returns the number of entries removed
+    stats(): CacheStats;
+    load(): Promise<void>;
+    flush(): Promise<void>;
+}
+
+interface CacheEntry<T> {
+    value: T;
+    expiresAt: number; // Epoch ms
+}
+
+interface CacheOptions {
+    name: string;
+    ttlSeconds: number;
+}
+
+// Delay between a change and the disk write, so bursts of requests cause one write
+const PERSIST_DEBOUNCE_MS = 5000;
+
+const registry: ResponseCache<unknown>[] = [];
+
+/**
+ * Short stable hash for cache keys (audio bytes, prompts)
+ */
+export function hashKey(data: string | Buffer): string {
+    return crypto.createHash('sha256').update(data).digest('hex');
+}
+
+/**
+ * Create a cache sized by CACHE_MAX_ENTRIES and register it for stats, purge and flush
+ */
+export function createResponseCache<T>({ name, ttlSeconds }: CacheOptions): ResponseCache<T> {
+    const enabled = config.cacheEnabled && config.cacheMaxEntries > 0;
+    const persisted = enabled && config.cachePersist;
+    const maxEntries = config.cacheMaxEntries;
+    const ttlMs = ttlSeconds * 1000;
+    const filePath = path.join(config.cacheDir, `${name}.json`);
+
+    // Map iteration order is insertion order: re-inserting on access keeps the
+    // least recently used entry first
+    const entries = new Map<string, CacheEntry<T>>();
+    let hits = 0;
+    let misses = 0;
+    let evictions = 0;
+    let expirations = 0;
+
+    let persistTimer: NodeJS.Timeout | null = null;
+    let writeQueue: Promise<unknown> = Promise.resolve();
+
+    function schedulePersist() {
+        if (!persisted || persistTimer) {
+            return;
+        }
+        persistTimer = setTimeout(() => {
+            persistTimer = null;
+            flush().catch(error => console.error(`[Cache] Failed to persist ${name} cache:`, error));
+        }, PERSIST_DEBOUNCE_MS);
+        persistTimer.unref();
+    }
+
+    function flush(): Promise<void> {
+        if (!persisted) {
+            return Promise.resolve();
+        }
+        if (persistTimer) {
+            clearTimeout(persistTimer);
+            persistTimer = null;
+        }
+        const run = writeQueue.then(() => writeJsonFileAtomic(filePath, [...entries]));
+        writeQueue = run.catch(() => undefined);
+        return run;
+    }
+
+    const cache: ResponseCache<T> = {
+        name,
+
+        get(key) {
+            if (!enabled) {
+                return undefined;
+            }
+            const entry = entries.get(key);
+            if (!entry) {
+                misses++;
+                return undefined;
+            }
+            entries.delete(key);
+            if (entry.expiresAt <= Date.now()) {
+                expirations++;
+                misses++;
+                schedulePersist();
+                return undefined;
+            }
+            entries.set(key, entry);
+            hits++;
+            return entry.value;
+        },
+
+        set(key, value) {
+            if (!enabled) {
+                return;
+            }
+            entries.delete(key);
+            entries.set(key, { value, expiresAt: Date.now() + ttlMs });
+            while (entries.size > maxEntries) {
+                const oldest = entries.keys().next().value as string;
+                entries.delete(oldest);
+                evictions++;
+            }
+            schedulePersist();
+        },
+
+        purge() {
+            const removed = entries.size;
+            entries.clear();
+            if (removed) {
+                schedulePersist();
+            }
+            return removed;
+        },
+
+        stats() {
+            const lookups = hits + misses;
+            return {
+                name,
+                enabled,
+                persisted,
+                size: entries.size,
+                maxEntries,
+                ttlSeconds,
+                hits,
+                misses,
+                hitRate: lookups ? hits / lookups : null,
+                evictions,
+                expirations,
+            };
+        },
+
+        async load() {
+            if (!persisted) {
+                return;
+            }
+            const stored = await readJsonFile<Array<[string, CacheEntry<T>]>>(filePath, []);
+            const now = Date.now();
+            entries.clear();
+            for (const [key, entry] of stored.slice(-maxEntries)) {
+                if (entry.expiresAt > now) {
+                    entries.set(key, entry);
+                }
+            }
+            console.log(`[Cache] Loaded ${entries.size} ${name} entries from ${filePath}`);
+        },
+
+        flush,
+    };
+
+    registry.push(cache as ResponseCache<unknown>);
+    return cache;
+}
+
+/**
+ * Reload the persisted caches (no-op unless CACHE_PERSIST is set)
+ */
+export async function initResponseCaches(): Promise<void> {
+    for (const cache of registry) {
+        await cache.load();
+    }
+}
+
+/**
+ * Write the persisted caches now, e.g. before the process exits
+ */
+export async function flushResponseCaches(): Promise<void> {
+    await Promise.all(registry.map(cache => cache.flush()));
+}
+
+export function getResponseCacheStats(): CacheStats[] {
+    return registry.map(cache => cache.stats());
+}
+
+/**
+ * Empty one cache by name, or all of them. Returns the removed entry count per cache,
+ * or null when no cache has that name.
+ */
+export function purgeResponseCaches(name?: string): Record<string, number> | null {
+    const targets = name ? registry.filter(cache => cache.name === name) : registry;
+    if (!targets.length) {
+        return null;
+    }
+    return Object.fromEntries(targets.map(cache => [cache.name, cache.purge()]));
+}
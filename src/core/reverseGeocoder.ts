@@ -0,0 +1,176 @@
+/**
+ * Offline reverse geocoding over the gazetteer: which district a GPS position is in
+ * and which named places are closest, without calling an external service
+ *
+ * Places are bucketed in a fixed lat/lon grid, so a lookup only measures the places
+ * in the cells around the position instead of the whole gazetteer.
+ */
+import { Place } from './destinationMatcher';
+import { GeoPoint, haversineKm, isWithinNouakchott, pointInPolygon } from './geo';
+import { isDistrict } from './placeHierarchy';
+import { hasArabic, hasLatin } from './transliteration';
+
+export interface ReverseGeocodeOptions {
+    limit?: number; // Nearest places to return
+    radiusKm?: number; // Ignore places further than this
+}
+
+export interface NamedPlace {
+    id: number;
+    canonicalName: string;
+    arabicName: string | null;
+    latinName: string | null;
+    category: string;
+    distanceKm: number;
+}
+
+export interface ReverseGeocodeResult {
+    lat: number;
+    lon: number;
+    withinNouakchott: boolean;
+    // 'polygon' when the position is inside the district outline, 'nearest' when the
+    // closest district centre was used instead (district has no polygon)
+    district: (NamedPlace & { method: 'polygon' | 'nearest' }) | null;
+    places: NamedPlace[];
+}
+
+interface SpatialIndex {
+    cells: Map<string, Place[]>;
+    districts: Place[];
+}
+
+// ~1.1 km of latitude per cell
+const CELL_SIZE_DEGREES = 0.01;
+
+// Shortest ground distance across one cell (its east-west side at Nouakchott's latitude)
+const MIN_CELL_KM = CELL_SIZE_DEGREES * 111.32 * Math.cos((18.35 * Math.PI) / 180);
+
+const DEFAULT_LIMIT = 5;
+const DEFAULT_RADIUS_KM = 2;
+
+const indexCache = new WeakMap<Place[], SpatialIndex>();
+
+function cellOf(lat: number, lon: number): [number, number] {
+    return [Math.floor(lat / CELL_SIZE_DEGREES), Math.floor(lon / CELL_SIZE_DEGREES)];
+}
+
+/**
+ * Grid index of the non-district places (cached per gazetteer version, like the match index)
+ */
+export function getSpatialIndex(places: Place[]): SpatialIndex {
+    let index = indexCache.get(places);
+    if (!index) {
+        const startedAt = Date.now();
+        const cells = new Map<string, Place[]>();
+        const districts: Place[] = [];
+        for (const place of places) {
+            if (isDistrict(place)) {
+                districts.push(place);
+                continue;
+            }
+            const key = cellOf(place.lat, place.lon).join(':');
+            const bucket = cells.get(key);
+            if (bucket) {
+                bucket.push(place);
+            } else {
+                cells.set(key, [place]);
+            }
+        }
+        index = { cells, districts };
+        indexCache.set(places, index);
+        console.log(`[ReverseGeocode] Indexed ${places.length} places in ${cells.size} cells in ${Date.now() - startedAt}ms`);
+    }
+    return index;
+}
+
+function describe(place: Place, distanceKm: number): NamedPlace {
+    const names = [place.canonicalName, ...place.variants].map(name => name.trim());
+    return {
+        id: place.id,
+        canonicalName: place.canonicalName,
+        // Arabic-only / Latin-only names first, so mixed names are a last resort
+        arabicName: names.find(name => hasArabic(name) && !hasLatin(name)) ?? names.find(hasArabic) ?? null,
+        latinName: names.find(name => hasLatin(name) && !hasArabic(name)) ?? names.find(hasLatin) ?? null,
+        category: place.category ?? 'other',
+        distanceKm: Math.round(distanceKm * 100) / 100,
+    };
+}
+
+/**
+ * District containing the point: a district polygon when one contains it, otherwise the
+ * district with the nearest centre
+ */
+function findDistrict(point: GeoPoint, districts: Place[]): ReverseGeocodeResult['district'] {
+    const containing = districts.find(d => !!d.polygon && pointInPolygon(point.lat, point.lon, d.polygon));
+    if (containing) {
+        return { ...describe(containing, haversineKm(point, containing)), method: 'polygon' };
+    }
+
+    let nearest: Place | null = null;
+    let nearestKm = Infinity;
+    for (const district of districts) {
+        const distanceKm = haversineKm(point, district);
+        if (distanceKm < nearestKm) {
+            nearest = district;
+            nearestKm = distanceKm;
+        }
+    }
+    return nearest ? { ...describe(nearest, nearestKm), method: 'nearest' } : null;
+}
+
+/**
+ * Nearest places by expanding rings of grid cells around the point, stopping once no
+ * unvisited cell can hold anything closer than what was already found
+ */
+function findNearestPlaces(point: GeoPoint, index: SpatialIndex, limit: number, radiusKm: number): NamedPlace[] {
+    const [row, col] = cellOf(point.lat, point.lon);
+    const maxRing = Math.ceil(radiusKm / MIN_CELL_KM) + 1;
+    const found: Array<{ place: Place; distanceKm: number }> = [];
+
+    for (let ring = 0; ring <= maxRing; ring++) {
+        for (let dRow = -ring; dRow <= ring; dRow++) {
+            for (let dCol = -ring; dCol <= ring; dCol++) {
+                if (Math.max(Math.abs(dRow), Math.abs(dCol)) !== ring) {
+                    continue;
+                }
+                for (const place of index.cells.get(`${row + dRow}:${col + dCol}`) ?? []) {
+                    const distanceKm = haversineKm(point, place);
+                    if (distanceKm <= radiusKm) {
+                        found.push({ place, distanceKm });
+                    }
+                }
+            }
+        }
+
+        found.sort((a, b) => a.distanceKm - b.distanceKm);
+        // Cells in the next ring are at least `ring` whole cells away
+        if (found.length >= limit && found[limit - 1].distanceKm <= ring * MIN_CELL_KM) {
+            break;
+        }
+    }
+
+    return found.slice(0, limit).map(({ place, distanceKm }) => describe(place, distanceKm));
+}
+
+/**
+ * Describe a GPS position with the gazetteer: its district and the nearest named places
+ */
+export function reverseGeocode(
+    point: GeoPoint,
+    places: Place[],
+    options: ReverseGeocodeOptions = {}
+): ReverseGeocodeResult {
+    const limit = options.limit ?? DEFAULT_LIMIT;
+    const radiusKm = options.radiusKm ?? DEFAULT_RADIUS_KM;
+    const index = getSpatialIndex(places);
+    const withinNouakchott = isWithinNouakchott(point.lat, point.lon);
+
+    return {
+        lat: point.lat,
+        lon: point.lon,
+        withinNouakchott,
+        // Outside the city the nearest district centre would be misleading
+        district: withinNouakchott ? findDistrict(point, index.districts) : null,
+        places: findNearestPlaces(point, index, limit, radiusKm),
+    };
+}
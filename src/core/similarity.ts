@@ -1,53 +1,73 @@
 /**
  * String similarity utilities for fuzzy matching
  */
+import { CostTable, getSubstitutionCosts } from './substitutionCosts';
 
 /**
- * Calculate Levenshtein distance between two strings
- * Returns the minimum number of single-character edits needed to transform one string into another
+ * Calculate weighted Levenshtein distance between two strings
+ * Substitutions and insertions/deletions are priced by the cost table, so common
+ * ASR confusions (ق/ك, ص/س, dropped alif…) cost less than an arbitrary edit
+ *
+ * Stops early and returns Infinity once the distance is sure to exceed `maxDistance`
  */
-function levenshteinDistance(str1: string, str2: string): number {
+export function weightedLevenshteinDistance(
+    str1: string,
+    str2: string,
+    costs: CostTable = getSubstitutionCosts(),
+    maxDistance: number = Infinity
+): number {
     const len1 = str1.length;
     const len2 = str2.length;
 
-    // Create a 2D array for dynamic programming
-    const dp: number[][] = Array(len1 + 1)
-        .fill(null)
-        .map(() => Array(len2 + 1).fill(0));
+    // Two rolling rows are enough: this runs for every span × variant pair
+    let prev = new Float64Array(len2 + 1);
+    let curr = new Float64Array(len2 + 1);
 
-    // Initialize base cases
-    for (let i = 0; i <= len1; i++) {
-        dp[i][0] = i;
-    }
-    for (let j = 0; j <= len2; j++) {
-        dp[0][j] = j;
+    // Insertion cost of each character of str2, and the base row
+    const insertCosts = new Float64Array(len2);
+    for (let j = 1; j <= len2; j++) {
+        insertCosts[j - 1] = costs.indels.get(str2[j - 1]) ?? 1;
+        prev[j] = prev[j - 1] + insertCosts[j - 1];
     }
 
-    // Fill the dp table
     for (let i = 1; i <= len1; i++) {
+        const ch = str1[i - 1];
+        const deleteCost = costs.indels.get(ch) ?? 1;
+        const substitutionRow = costs.substitutions.get(ch);
+
+        curr[0] = prev[0] + deleteCost;
+        let rowMin = curr[0];
         for (let j = 1; j <= len2; j++) {
-            if (str1[i - 1] === str2[j - 1]) {
-                dp[i][j] = dp[i - 1][j - 1];
-            } else {
-                dp[i][j] = Math.min(
-                    dp[i - 1][j] + 1,      // deletion
-                    dp[i][j - 1] + 1,      // insertion
-                    dp[i - 1][j - 1] + 1   // substitution
-                );
-            }
+            const other = str2[j - 1];
+            const substitutionCost = ch === other ? 0 : substitutionRow?.get(other) ?? 1;
+            curr[j] = Math.min(
+                prev[j] + deleteCost,                      // deletion
+                curr[j - 1] + insertCosts[j - 1],          // insertion
+                prev[j - 1] + substitutionCost             // substitution
+            );
+            rowMin = Math.min(rowMin, curr[j]);
+        }
+
+        // Costs are never negative, so no path can come back under the bound
+        if (rowMin > maxDistance) {
+            return Infinity;
         }
+
+        [prev, curr] = [curr, prev];
     }
 
-    return dp[len1][len2];
+    return prev[len2];
 }
 
 /**
  * Calculate normalized similarity score between two strings
  * Returns a value between 0 (completely different) and 1 (identical)
  * 
- * Uses Levenshtein distance normalized by the length of the longer string
+ * Uses weighted Levenshtein distance normalized by the length of the longer string.
+ * Scores below `minScore` are not computed exactly and come back as 0, which lets
+ * callers that only care about good matches skip most of the work.
  */
-export function similarity(str1: string, str2: string): number {
+export function similarity(str1: string, str2: string, minScore: number = 0): number {
     if (!str1 || !str2) {
         return 0;
     }
@@ -57,8 +77,14 @@ export function similarity(str1: string, str2: string): number {
         return 1.0;
     }
 
-    const distance = levenshteinDistance(str1, str2);
+    if (minScore > 1) {
+        return 0;
+    }
+
     const maxLength = Math.max(str1.length, str2.length);
+    // Small slack so a score exactly at minScore survives floating-point rounding
+    const maxDistance = minScore > 0 ? (1 - minScore) * maxLength + 1e-9 : Infinity;
+    const distance = weightedLevenshteinDistance(str1, str2, getSubstitutionCosts(), maxDistance);
 
     // Normalize to 0..1 range (1 = identical, 0 = completely different)
     const score = 1 - distance / maxLength;
@@ -105,7 +131,7 @@ export function containsSimilarity(haystack: string, needle: string): number {
             if (token.length < 3 || needleTokens[0].length < 3) {
                 continue;
             }
-            const score = similarity(token, needleTokens[0]);
+            const score = similarity(token, needleTokens[0], 0.8);
             // Only accept if similarity is very high (>= 0.8)
             if (score >= 0.8) {
                 maxScore = Math.max(maxScore, score);
@@ -119,7 +145,7 @@ export function containsSimilarity(haystack: string, needle: string): number {
         let maxScore = 0;
         for (let i = 0; i <= haystackTokens.length - needleTokens.length; i++) {
             const window = haystackTokens.slice(i, i + needleTokens.length).join(' ');
-            const score = similarity(window, needle);
+            const score = similarity(window, needle, 0.85);
             // Require high similarity for multi-token matches
             if (score >= 0.85) {
                 maxScore = Math.max(maxScore, score);
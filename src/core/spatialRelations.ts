@@ -0,0 +1,84 @@
+/**
+ * Landmark-relative destinations ("گدام مسجد ولد أحمدو", "ورا كارفور", "قرب مستشفى الشيخ زايد")
+ *
+ * Most Nouakchott addresses are given relative to a landmark. The relation phrase is
+ * split off so that only the anchor is matched against the gazetteer, and the match
+ * carries the relation and a radius so clients can show "near X" rather than an
+ * exact pin on X.
+ */
+
+export type SpatialRelationType = 'near' | 'next_to' | 'behind' | 'in_front_of' | 'opposite';
+
+export interface SpatialRelation {
+    type: SpatialRelationType;
+    radiusMeters: number; // How far from the anchor the destination may be
+}
+
+export interface RelationPhrase {
+    relation: SpatialRelation;
+    phrase: string; // As found in the normalized text
+    anchorText: string; // What follows the phrase
+}
+
+// Phrases after normalization (أ → ا, ى → ي), Hassaniya g spelled گ / ق / ك
+const RELATION_PHRASES: Array<{ phrase: string; type: SpatialRelationType }> = [
+    { phrase: 'قريب من', type: 'near' },
+    { phrase: 'گريب من', type: 'near' },
+    { phrase: 'قريب', type: 'near' },
+    { phrase: 'گريب', type: 'near' },
+    { phrase: 'قرب', type: 'near' },
+    { phrase: 'گرب', type: 'near' },
+    { phrase: 'جنب', type: 'next_to' },
+    { phrase: 'بجنب', type: 'next_to' },
+    { phrase: 'حذا', type: 'next_to' },
+    { phrase: 'بحذا', type: 'next_to' },
+    { phrase: 'ورا', type: 'behind' },
+    { phrase: 'وراء', type: 'behind' },
+    { phrase: 'وري', type: 'behind' },
+    { phrase: 'خلف', type: 'behind' },
+    { phrase: 'گدام', type: 'in_front_of' },
+    { phrase: 'قدام', type: 'in_front_of' },
+    { phrase: 'كدام', type: 'in_front_of' },
+    { phrase: 'امام', type: 'in_front_of' },
+    { phrase: 'مقابل', type: 'opposite' },
+    { phrase: 'گباله', type: 'opposite' },
+    { phrase: 'قباله', type: 'opposite' },
+];
+
+const RADIUS_BY_RELATION: Record<SpatialRelationType, number> = {
+    near: 300,
+    next_to: 100,
+    behind: 200,
+    in_front_of: 100,
+    opposite: 150,
+};
+
+/**
+ * Find the first relation phrase in a normalized text
+ * Returns null when there is none, or when nothing follows it
+ */
+export function extractRelation(normalizedText: string): RelationPhrase | null {
+    const tokens = normalizedText.split(/\s+/).filter(Boolean);
+
+    for (let i = 0; i < tokens.length; i++) {
+        // Longest phrase first ("قريب من" before "قريب")
+        for (const { phrase, type } of RELATION_PHRASES) {
+            const phraseTokens = phrase.split(' ');
+            if (!phraseTokens.every((token, j) => tokens[i + j] === token)) {
+                continue;
+            }
+
+            const anchorText = tokens.slice(i + phraseTokens.length).join(' ');
+            if (!anchorText) {
+                return null;
+            }
+            return {
+                relation: { type, radiusMeters: RADIUS_BY_RELATION[type] },
+                phrase,
+                anchorText,
+            };
+        }
+    }
+
+    return null;
+}
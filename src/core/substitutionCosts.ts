@@ -0,0 +1,223 @@
+/**
+ * Substitution cost table for the weighted, Arabic-aware edit distance
+ *
+ * Whisper routinely confuses some letters (ق/گ/ك, ص/س, ظ/ض…) and drops or inserts
+ * alif, so those edits should cost less than an arbitrary substitution. The defaults
+ * below encode common Hassaniya confusions; a JSON file (SUBSTITUTION_COSTS_PATH)
+ * can override them, and deriveSubstitutionCosts() learns costs from logged
+ * misrecognitions (see `npm run derive-costs`).
+ */
+import { config } from '../config/env';
+import { readJsonFile } from './jsonFileStore';
+
+/**
+ * Serializable cost table. Substitution keys are two characters joined by "|"
+ * (order does not matter); indel keys are single characters. Costs are in 0..1,
+ * anything not listed costs 1. Costs apply to normalized text, so characters that
+ * normalization folds away (ة, ى, أ…) never occur in it.
+ */
+export interface SubstitutionCostFile {
+    substitutions: Record<string, number>;
+    indels: Record<string, number>;
+}
+
+export interface CostTable {
+    substitutions: Map<string, Map<string, number>>; // a → b → cost (symmetric)
+    indels: Map<string, number>;
+}
+
+export const DEFAULT_SUBSTITUTION_COSTS: SubstitutionCostFile = {
+    substitutions: {
+        // Velars and uvulars: Hassaniya g is written ق, گ or ك
+        'ق|گ': 0.2,
+        'ق|ك': 0.3,
+        'ك|گ': 0.3,
+        'ق|غ': 0.5,
+        'غ|گ': 0.5,
+        // Emphatic / plain pairs
+        'ص|س': 0.3,
+        'ط|ت': 0.4,
+        'ظ|ض': 0.3,
+        'ض|د': 0.5,
+        'ظ|ذ': 0.5,
+        'ذ|د': 0.5,
+        'ذ|ز': 0.5,
+        'ث|ت': 0.5,
+        'ث|س': 0.5,
+        // The two h sounds, and final haa (taa marbuta once normalized) heard as alif
+        'ه|ح': 0.5,
+        'ه|ا': 0.5,
+        // Long vowels standing in for one another
+        'و|ي': 0.6,
+    },
+    indels: {
+        // Alif (long a) is frequently dropped or added
+        'ا': 0.3,
+        // Long vowels and ain are often swallowed in fast speech
+        'و': 0.5,
+        'ي': 0.5,
+        'ع': 0.6,
+        'ء': 0.3,
+        'ه': 0.6,
+        ' ': 0.3,
+    },
+};
+
+// Learned costs never go below this, so a substitution is never free
+const MIN_LEARNED_COST = 0.2;
+
+// Additive smoothing: a pair seen this many times gets cost 0.5
+const LEARNING_SMOOTHING = 5;
+
+/**
+ * Compile a cost file into a fast lookup table
+ */
+export function compileCostTable(file: SubstitutionCostFile): CostTable {
+    // Nested maps avoid building a key string for every DP cell
+    const substitutions = new Map<string, Map<string, number>>();
+    const setCost = (a: string, b: string, cost: number) => {
+        let row = substitutions.get(a);
+        if (!row) {
+            row = new Map();
+            substitutions.set(a, row);
+        }
+        row.set(b, cost);
+    };
+
+    for (const [pair, cost] of Object.entries(file.substitutions)) {
+        const [a, b] = pair.split('|');
+        if (a === undefined || b === undefined || !Number.isFinite(cost)) {
+            continue;
+        }
+        setCost(a, b, cost);
+        setCost(b, a, cost);
+    }
+    const indels = new Map(Object.entries(file.indels).filter(([, cost]) => Number.isFinite(cost)));
+
+    return { substitutions, indels };
+}
+
+let activeCosts: CostTable = compileCostTable(DEFAULT_SUBSTITUTION_COSTS);
+
+export function getSubstitutionCosts(): CostTable {
+    return activeCosts;
+}
+
+export function setSubstitutionCosts(file: SubstitutionCostFile): void {
+    activeCosts = compileCostTable(file);
+}
+
+/**
+ * Load the cost file (if any) on top of the defaults
+ */
+export async function loadSubstitutionCosts(): Promise<void> {
+    const file = await readJsonFile<Partial<SubstitutionCostFile> | null>(config.substitutionCostsPath, null);
+    if (!file) {
+        console.log('[Similarity] Using default substitution costs');
+        setSubstitutionCosts(DEFAULT_SUBSTITUTION_COSTS);
+        return;
+    }
+
+    setSubstitutionCosts({
+        substitutions: { ...DEFAULT_SUBSTITUTION_COSTS.substitutions, ...file.substitutions },
+        indels: { ...DEFAULT_SUBSTITUTION_COSTS.indels, ...file.indels },
+    });
+    console.log(`[Similarity] Loaded substitution costs from ${config.substitutionCostsPath}`);
+}
+
+export type EditOperation =
+    | { type: 'match'; a: string }
+    | { type: 'substitute'; a: string; b: string }
+    | { type: 'delete'; a: string }
+    | { type: 'insert'; b: string };
+
+/**
+ * Align two strings with unit-cost Levenshtein and return the edit operations
+ * turning `source` into `target`
+ */
+export function alignStrings(source: string, target: string): EditOperation[] {
+    const a = [...source];
+    const b = [...target];
+    const dp: number[][] = Array.from({ length: a.length + 1 }, (_, i) =>
+        Array.from({ length: b.length + 1 }, (_, j) => (i === 0 ? j : j === 0 ? i : 0))
+    );
+
+    for (let i = 1; i <= a.length; i++) {
+        for (let j = 1; j <= b.length; j++) {
+            dp[i][j] = Math.min(
+                dp[i - 1][j] + 1,
+                dp[i][j - 1] + 1,
+                dp[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+    }
+
+    // Backtrace from the bottom-right corner
+    const operations: EditOperation[] = [];
+    let i = a.length;
+    let j = b.length;
+    while (i > 0 || j > 0) {
+        if (i > 0 && j > 0 && dp[i][j] === dp[i - 1][j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)) {
+            operations.push(a[i - 1] === b[j - 1]
+                ? { type: 'match', a: a[i - 1] }
+                : { type: 'substitute', a: a[i - 1], b: b[j - 1] });
+            i--;
+            j--;
+        } else if (i > 0 && dp[i][j] === dp[i - 1][j] + 1) {
+            operations.push({ type: 'delete', a: a[i - 1] });
+            i--;
+        } else {
+            operations.push({ type: 'insert', b: b[j - 1] });
+            j--;
+        }
+    }
+
+    return operations.reverse();
+}
+
+/**
+ * Learn a cost file from (heard, expected) pairs, e.g. ASR transcripts and the
+ * gazetteer variant the rider confirmed
+ *
+ * Each substitution / indel seen at least `minCount` times gets a cost that falls
+ * with its frequency; learned costs are merged over the defaults.
+ */
+export function deriveSubstitutionCosts(
+    pairs: Array<{ heard: string; expected: string }>,
+    minCount: number = 2
+): SubstitutionCostFile {
+    const substitutionCounts = new Map<string, number>();
+    const indelCounts = new Map<string, number>();
+
+    for (const { heard, expected } of pairs) {
+        for (const op of alignStrings(heard, expected)) {
+            if (op.type === 'substitute') {
+                const key = [op.a, op.b].sort().join('|');
+                substitutionCounts.set(key, (substitutionCounts.get(key) ?? 0) + 1);
+            } else if (op.type === 'delete' || op.type === 'insert') {
+                const ch = op.type === 'delete' ? op.a : op.b;
+                indelCounts.set(ch, (indelCounts.get(ch) ?? 0) + 1);
+            }
+        }
+    }
+
+    const toCost = (count: number) =>
+        Math.max(MIN_LEARNED_COST, Number((LEARNING_SMOOTHING / (LEARNING_SMOOTHING + count)).toFixed(2)));
+
+    const learn = (counts: Map<string, number>, defaults: Record<string, number>) => {
+        const result: Record<string, number> = { ...defaults };
+        for (const [key, count] of counts) {
+            if (count >= minCount) {
+                // Defaults may list the pair in the other order
+                const reversed = key.split('|').reverse().join('|');
+                result[key] = Math.min(result[key] ?? result[reversed] ?? 1, toCost(count));
+            }
+        }
+        return result;
+    };
+
+    return {
+        substitutions: learn(substitutionCounts, DEFAULT_SUBSTITUTION_COSTS.substitutions),
+        indels: learn(indelCounts, DEFAULT_SUBSTITUTION_COSTS.indels),
+    };
+}
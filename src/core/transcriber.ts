@@ -0,0 +1,45 @@
+/**
+ * Transcriber abstraction so the ASR backend can be swapped by configuration
+ */
+
+export interface TranscriptionInput {
+    buffer: Buffer;
+    mimeType: string; // Resolved audio MIME type (never application/octet-stream)
+    extension: string; // File extension without the dot (e.g. 'wav', 'm4a')
+    prompt: string; // Biasing prompt, empty string when none
+    language?: string; // ISO-639-1 code, undefined for auto-detection
+    temperature: number;
+    model?: string; // Overrides the backend's configured model where it has a choice (OpenAI)
+}
+
+export interface TranscriptSegment {
+    text: string;
+    noSpeechProb: number | null; // Whisper's probability that the segment is silence
+    avgLogprob: number | null; // Mean token log-probability, lower is less certain
+}
+
+export interface TranscriptionOutput {
+    text: string;
+    segments: TranscriptSegment[] | null; // null when the backend only returns plain text
+}
+
+export interface Transcriber {
+    readonly name: string;
+    transcribe(input: TranscriptionInput): Promise<TranscriptionOutput>;
+}
+
+/**
+ * Read the segments of a Whisper `verbose_json` reply (OpenAI and whisper.cpp use the
+ * same field names); statistics a server leaves out become null
+ */
+export function parseVerboseSegments(segments: unknown): TranscriptSegment[] | null {
+    if (!Array.isArray(segments)) {
+        return null;
+    }
+    const stat = (value: unknown) => (typeof value === 'number' && Number.isFinite(value) ? value : null);
+    return segments.map((segment) => ({
+        text: typeof segment?.text === 'string' ? segment.text : '',
+        noSpeechProb: stat(segment?.no_speech_prob),
+        avgLogprob: stat(segment?.avg_logprob),
+    }));
+}
@@ -0,0 +1,290 @@
+/**
+ * Hallucination check for ASR transcripts
+ *
+ * Whisper is prompted with a list of place names; on noisy or empty audio it sometimes
+ * echoes that list, loops on a fragment or emits subtitle boilerplate from its training
+ * data. The fuzzy matcher would accept those names at full confidence, so transcripts
+ * are checked before matching: suspect ones are cleaned and their matches downgraded,
+ * those with nothing left are rejected.
+ */
+import { config } from '../config/env';
+import { TranscriptionPrompt, PROMPT_HEADER } from './asrPrompt';
+import { TranscriptSegment } from './transcriber';
+import { foldText } from './normalization';
+
+export type TranscriptVerdict = 'ok' | 'suspect' | 'rejected';
+
+export type TranscriptIssueCode =
+    | 'PROMPT_ECHO' // Run of prompt place names or prompt header words
+    | 'REPEATED_FRAGMENT' // The same words three or more times in a row
+    | 'BOILERPLATE' // Subtitle credits and similar text Whisper invents
+    | 'NO_SPEECH' // Segments Whisper itself considers silent
+    | 'LOW_CONFIDENCE'; // Low average log-probability over the segments
+
+export interface TranscriptIssue {
+    code: TranscriptIssueCode;
+    detail: string;
+}
+
+export interface TranscriptCheck {
+    verdict: TranscriptVerdict;
+    issues: TranscriptIssue[];
+    text: string; // Transcript to match, with the hallucinated parts removed
+}
+
+interface Token {
+    text: string;
+    key: string; // Folded form used for comparisons
+    segment: number | null; // Backend segment the word comes from (null for text-only backends)
+}
+
+// Consecutive prompt names (in prompt order) that count as an echo of the list
+const ECHO_MIN_NAMES = 3;
+
+// Consecutive prompt header words that count as an echo of the header
+const ECHO_MIN_HEADER_WORDS = 3;
+
+// A fragment of up to this many words repeated MIN_REPEATS times in a row is a loop
+const MAX_REPEAT_WORDS = 4;
+const MIN_REPEATS = 3;
+
+// Known Whisper hallucinations on silence (YouTube subtitle credits and outros),
+// removed wherever they appear
+const BOILERPLATE_PHRASES = [
+    'اشتركوا في القناة',
+    'لا تنسوا الاشتراك في القناة',
+    'شكرا على المشاهدة',
+    'شكرا لكم على المشاهدة',
+    'شكرا للمشاهدة',
+    'ترجمة نانسي قنقر',
+    'نانسي قنقر',
+    'thank you for watching',
+    'thanks for watching',
+    'please subscribe',
+    'subtitles by the amara org community',
+];
+
+// Single words Whisper emits on silence; common enough in speech that they are only
+// removed when they are the whole transcript or a whole segment
+const BOILERPLATE_WORDS = ['موسيقى', 'music', 'you'];
+
+const SEPARATORS = /[\s،,.!?؟؛;:"'«»()[\]…-]+/;
+
+function tokenize(text: string, segment: number | null = null): Token[] {
+    return text
+        .split(SEPARATORS)
+        .filter(Boolean)
+        .map(word => ({ text: word, key: foldText(word), segment }));
+}
+
+function keysOf(text: string): string[] {
+    return tokenize(text).map(token => token.key);
+}
+
+function startsWithAt(tokens: Token[], index: number, keys: string[]): boolean {
+    return keys.length > 0 &&
+        index + keys.length <= tokens.length &&
+        keys.every((key, offset) => tokens[index + offset].key === key);
+}
+
+function joinTokens(tokens: Token[]): string {
+    return tokens.map(token => token.text).join(' ');
+}
+
+/**
+ * Drop segments Whisper flags as silence (its own rule: no_speech_prob above the
+ * threshold and avg_logprob below it) and rate the confidence of the rest
+ */
+function checkSegments(segments: TranscriptSegment[], issues: TranscriptIssue[]): TranscriptSegment[] {
+    const silent = (segment: TranscriptSegment) =>
+        segment.noSpeechProb !== null &&
+        segment.avgLogprob !== null &&
+        segment.noSpeechProb > config.asrNoSpeechProb &&
+        segment.avgLogprob < config.asrLogprobThreshold;
+
+    const kept = segments.filter(segment => !silent(segment));
+    if (kept.length < segments.length) {
+        issues.push({
+            code: 'NO_SPEECH',
+            detail: `${segments.length - kept.length} of ${segments.length} segment(s) look like silence`,
+        });
+    }
+
+    const logprobs = kept.map(segment => segment.avgLogprob).filter((value): value is number => value !== null);
+    if (logprobs.length) {
+        const mean = logprobs.reduce((sum, value) => sum + value, 0) / logprobs.length;
+        if (mean < config.asrLogprobThreshold) {
+            issues.push({ code: 'LOW_CONFIDENCE', detail: `Average log-probability ${mean.toFixed(2)}` });
+        }
+    }
+
+    return kept;
+}
+
+function removeBoilerplate(tokens: Token[], issues: TranscriptIssue[]): Token[] {
+    // Longer phrases first, so "شكرا لكم على المشاهدة" is not left half-removed
+    const phrases = BOILERPLATE_PHRASES
+        .map(phrase => ({ phrase, keys: keysOf(phrase) }))
+        .sort((a, b) => b.keys.length - a.keys.length);
+    const words = new Map(BOILERPLATE_WORDS.map(word => [foldText(word), word]));
+
+    // A word stands alone when it is the whole transcript or the whole of its segment
+    const segmentSizes = new Map<number | null, number>();
+    tokens.forEach(token => segmentSizes.set(token.segment, (segmentSizes.get(token.segment) ?? 0) + 1));
+    const standsAlone = (token: Token) => tokens.length === 1 || (token.segment !== null && segmentSizes.get(token.segment) === 1);
+
+    const kept: Token[] = [];
+    const found = new Set<string>();
+    for (let i = 0; i < tokens.length;) {
+        const match = phrases.find(({ keys }) => startsWithAt(tokens, i, keys));
+        const word = words.get(tokens[i].key);
+        if (match) {
+            found.add(match.phrase);
+            i += match.keys.length;
+        } else if (word && standsAlone(tokens[i])) {
+            found.add(word);
+            i++;
+        } else {
+            kept.push(tokens[i++]);
+        }
+    }
+
+    if (found.size) {
+        issues.push({ code: 'BOILERPLATE', detail: [...found].map(phrase => `"${phrase}"`).join(', ') });
+    }
+    return kept;
+}
+
+/**
+ * Collapse fragments repeated MIN_REPEATS or more times in a row to one occurrence
+ */
+function collapseRepeats(tokens: Token[], issues: TranscriptIssue[]): Token[] {
+    const kept: Token[] = [];
+    for (let i = 0; i < tokens.length;) {
+        let collapsed = false;
+        for (let size = MAX_REPEAT_WORDS; size >= 1 && !collapsed; size--) {
+            const keys = tokens.slice(i, i + size).map(token => token.key);
+            if (keys.length < size) {
+                continue;
+            }
+            let repeats = 1;
+            while (startsWithAt(tokens, i + repeats * size, keys)) {
+                repeats++;
+            }
+            if (repeats >= MIN_REPEATS) {
+                issues.push({
+                    code: 'REPEATED_FRAGMENT',
+                    detail: `"${joinTokens(tokens.slice(i, i + size))}" repeated ${repeats} times`,
+                });
+                kept.push(...tokens.slice(i, i + size));
+                i += repeats * size;
+                collapsed = true;
+            }
+        }
+        if (!collapsed) {
+            kept.push(tokens[i++]);
+        }
+    }
+    return kept;
+}
+
+/**
+ * Remove runs of the prompt: ECHO_MIN_NAMES or more place names in the order the prompt
+ * lists them, or ECHO_MIN_HEADER_WORDS or more consecutive header words
+ */
+function removePromptEcho(tokens: Token[], prompt: TranscriptionPrompt, issues: TranscriptIssue[]): Token[] {
+    if (!prompt.text) {
+        return tokens;
+    }
+    const names = prompt.places.map(place => keysOf(place.canonicalName)).filter(keys => keys.length > 0);
+    const header = keysOf(PROMPT_HEADER);
+
+    const kept: Token[] = [];
+    let echoedNames = 0;
+    let echoedHeaderWords = 0;
+    for (let i = 0; i < tokens.length;) {
+        // Longest run of consecutive prompt names starting here
+        let nameRun = { count: 0, length: 0 };
+        names.forEach((_, first) => {
+            let count = 0;
+            let length = 0;
+            while (first + count < names.length && startsWithAt(tokens, i + length, names[first + count])) {
+                length += names[first + count].length;
+                count++;
+            }
+            if (count > nameRun.count) {
+                nameRun = { count, length };
+            }
+        });
+        if (nameRun.count >= ECHO_MIN_NAMES) {
+            echoedNames += nameRun.count;
+            i += nameRun.length;
+            continue;
+        }
+
+        // Longest run of consecutive header words starting here
+        let headerRun = 0;
+        header.forEach((_, first) => {
+            let length = 0;
+            while (first + length < header.length && tokens[i + length]?.key === header[first + length]) {
+                length++;
+            }
+            headerRun = Math.max(headerRun, length);
+        });
+        if (headerRun >= ECHO_MIN_HEADER_WORDS) {
+            echoedHeaderWords += headerRun;
+            i += headerRun;
+            continue;
+        }
+
+        kept.push(tokens[i++]);
+    }
+
+    if (echoedNames) {
+        issues.push({ code: 'PROMPT_ECHO', detail: `${echoedNames} place names in prompt order` });
+    }
+    if (echoedHeaderWords) {
+        issues.push({ code: 'PROMPT_ECHO', detail: `${echoedHeaderWords} words of the prompt header` });
+    }
+    return kept;
+}
+
+/**
+ * Check a transcript against the prompt it was produced with and the backend's
+ * segment statistics (null for backends that only return text)
+ */
+export function checkTranscript(
+    transcript: string,
+    prompt: TranscriptionPrompt,
+    segments: TranscriptSegment[] | null
+): TranscriptCheck {
+    const text = transcript.trim();
+    if (!config.asrHallucinationGuard) {
+        return { verdict: 'ok', issues: [], text };
+    }
+
+    const issues: TranscriptIssue[] = [];
+    const spoken = segments?.length ? checkSegments(segments, issues) : null;
+    const silenceDropped = spoken !== null && spoken.length < (segments?.length ?? 0);
+    const original = spoken
+        ? spoken.flatMap((segment, index) => tokenize(segment.text, index))
+        : tokenize(text);
+
+    let tokens = removeBoilerplate(original, issues);
+    tokens = collapseRepeats(tokens, issues);
+    tokens = removePromptEcho(tokens, prompt, issues);
+
+    if (!issues.length) {
+        return { verdict: 'ok', issues, text };
+    }
+    const cleaned = joinTokens(tokens);
+    if (!tokens.length) {
+        return { verdict: 'rejected', issues, text: cleaned };
+    }
+    return {
+        verdict: 'suspect',
+        issues,
+        // Keep the original punctuation when only the confidence was in question
+        text: tokens.length === original.length && !silenceDropped ? text : cleaned,
+    };
+}
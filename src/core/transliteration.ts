@@ -0,0 +1,151 @@
+/**
+ * Phonetic keys for cross-script matching (Arabic / Hassaniya / French-style Latin)
+ *
+ * Both scripts are reduced to a consonant skeleton over a shared alphabet, so that
+ * "toujounine" and "توجنين" (or "tevragh zeina" and "تفرغ زينة") produce the same key.
+ * Vowels are dropped because Arabic script does not write short vowels, and letters
+ * that Hassaniya speakers or French spellings use interchangeably share one class.
+ */
+import { normalizeText } from './normalization';
+
+// Arabic letter → phonetic class ('' drops the letter: long vowels, ain, hamza)
+const ARABIC_CLASSES: Record<string, string> = {
+    'ب': 'B', 'پ': 'B',
+    'ت': 'T', 'ط': 'T', 'ث': 'T',
+    'ج': 'J', 'ژ': 'J',
+    'ح': 'H', 'ه': 'H',
+    'خ': 'X',
+    'د': 'D', 'ذ': 'D', 'ض': 'D', 'ظ': 'D',
+    'ر': 'R',
+    'ز': 'Z',
+    'س': 'S', 'ص': 'S',
+    'ش': 'C',
+    'غ': 'G', 'ق': 'G', 'گ': 'G', 'ڭ': 'G',
+    'ف': 'F', 'ڤ': 'F',
+    'ك': 'K', 'ک': 'K',
+    'ل': 'L',
+    'م': 'M',
+    'ن': 'N',
+    'ا': '', 'و': '', 'ي': '', 'ع': '', 'ء': '', 'ئ': '', 'ؤ': '',
+};
+
+// Latin digraphs checked before single letters (longest first)
+const LATIN_DIGRAPHS: Array<[string, string]> = [
+    ['tch', 'C'],
+    ['dj', 'J'],
+    ['ch', 'C'],
+    ['sh', 'C'],
+    ['kh', 'X'],
+    ['gh', 'G'],
+    ['gu', 'G'],
+    ['qu', 'K'],
+    ['ph', 'F'],
+    ['th', 'T'],
+    ['dh', 'D'],
+    ['ck', 'K'],
+];
+
+const LATIN_CLASSES: Record<string, string> = {
+    b: 'B', p: 'B',
+    t: 'T',
+    d: 'D',
+    j: 'J',
+    k: 'K',
+    q: 'G',
+    x: 'KS',
+    s: 'S', 'ç': 'S',
+    z: 'Z',
+    h: 'H',
+    f: 'F', v: 'F',
+    m: 'M',
+    n: 'N',
+    l: 'L',
+    r: 'R',
+    a: '', e: '', i: '', o: '', u: '', w: '', y: '',
+};
+
+// Standalone Latin articles that Arabic spellings usually omit or attach
+const LATIN_ARTICLES = new Set(['el', 'al', 'le', 'la']);
+
+// Keys shorter than this collide too easily to be useful
+export const MIN_PHONETIC_KEY_LENGTH = 3;
+
+const ARABIC_LETTER = /[\u0600-\u06FF]/;
+const LATIN_LETTER = /[a-z]/i;
+
+export function hasArabic(text: string): boolean {
+    return ARABIC_LETTER.test(text);
+}
+
+export function hasLatin(text: string): boolean {
+    return LATIN_LETTER.test(text);
+}
+
+function arabicWordKey(word: string): string {
+    // Drop the definite article ("السبخة" → "سبخة"); short words keep it ("الف")
+    let w = word.length > 3 && word.startsWith('ال') ? word.slice(2) : word;
+
+    // Word-final ه is almost always a normalized taa marbuta, pronounced as a vowel
+    if (w.length > 1 && w.endsWith('ه')) {
+        w = w.slice(0, -1);
+    }
+
+    let key = '';
+    for (const ch of w) {
+        key += ARABIC_CLASSES[ch] ?? '';
+    }
+    return key;
+}
+
+function latinWordKey(word: string): string {
+    // Strip accents (é → e) and the elided article (l'americain → americain)
+    const w = word
+        .normalize('NFD')
+        .replace(/[\u0300-\u036f]/g, '')
+        .replace(/^l['’]/, '');
+
+    if (LATIN_ARTICLES.has(w)) {
+        return '';
+    }
+
+    let key = '';
+    let i = 0;
+    while (i < w.length) {
+        const digraph = LATIN_DIGRAPHS.find(([letters]) => w.startsWith(letters, i));
+        if (digraph) {
+            key += digraph[1];
+            i += digraph[0].length;
+            continue;
+        }
+
+        const ch = w[i];
+        const next = w[i + 1] ?? '';
+        if (ch === 'c') {
+            // French soft c before e/i/y
+            key += next && 'eiy'.includes(next) ? 'S' : 'K';
+        } else if (ch === 'g') {
+            // French soft g before e/i ("ge", "gi")
+            key += next && 'ei'.includes(next) ? 'J' : 'G';
+        } else {
+            key += LATIN_CLASSES[ch] ?? '';
+        }
+        i++;
+    }
+    return key;
+}
+
+/**
+ * Compute the phonetic key of a text in Arabic script, Latin script or a mix of both
+ *
+ * Word boundaries are not kept ("دارالبركة" and "dar el baraka" must meet), and runs
+ * of the same class collapse to one letter ("toujounine" → "TJN").
+ */
+export function phoneticKey(text: string): string {
+    const words = normalizeText(text).split(/\s+/).filter(Boolean);
+
+    const raw = words
+        .map(word => (hasArabic(word) ? arabicWordKey(word) : latinWordKey(word)))
+        .join('');
+
+    return raw.replace(/(.)\1+/g, '$1');
+}
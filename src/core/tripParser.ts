@@ -0,0 +1,284 @@
+/**
+ * Origin / destination / stop extraction from a single utterance
+ *
+ * Riders often give both ends of the trip: "من تفرغ زينة لتوجنين" (from Tevragh Zeina
+ * to Toujounine). The normalized transcript is split at Hassaniya markers into
+ * alternative readings; each reading is scored against the gazetteer and the best
+ * one is resolved. Markers are ambiguous ("ل" may be part of a name like "لكصر", and
+ * "من" also means "near" in "قريب من"), so the whole utterance read as a destination
+ * always stays in the running.
+ *
+ * The destination part may itself list several stops ("لكارفور وبعد لدار النعيم"),
+ * split on sequencing words; a split is only kept when every stop matches a place.
+ */
+import { normalizeText } from './normalization';
+import {
+    rankCandidates,
+    resolveDestination,
+    DestinationResolution,
+    Place,
+    ResolveOptions,
+    CONFIDENCE_THRESHOLD,
+} from './destinationMatcher';
+import { extractRelation } from './spatialRelations';
+
+export interface TripReading {
+    origin: string | null;
+    destination: string | null;
+}
+
+export interface TripResolution {
+    origin: DestinationResolution | null; // null when the utterance names no origin
+    destination: DestinationResolution; // The last stop
+    waypoints: DestinationResolution[]; // Every stop in order, destination last
+    stops: string[];
+    reading: TripReading;
+}
+
+// Markers after normalization (ى → ي, tatweel removed, so "لـ" becomes "ل")
+const ORIGIN_MARKERS = new Set(['من']);
+const DESTINATION_MARKERS = new Set(['ل', 'الي', 'حتي', 'گايس', 'قايس', 'كايس']);
+
+// Attached destination prefix, as in "لتوجنين"
+const ATTACHED_DESTINATION_PREFIX = 'ل';
+
+// Words that chain stops ("وبعد" = and then); "و" may also be attached ("ودار النعيم")
+const SEQUENCE_MARKERS = new Set(['و', 'وبعد', 'ثم']);
+const ATTACHED_SEQUENCE_PREFIX = 'و';
+
+// Words that merely start with و and are common inside names ("مسجد ولد أحمدو", "ورا كارفور")
+const NOT_ATTACHED_SEQUENCE = new Set(['ولد', 'ولاد', 'ودي', 'وادي', 'واد', 'وسط', 'ورا', 'وراء', 'وري']);
+
+// Filler that may open a stop after a sequencing word ("و بعد لدار النعيم")
+const STOP_FILLERS = new Set(['بعد', 'بعدين']);
+
+// Sequencing words considered per utterance (each one doubles the readings to score)
+const MAX_STOP_SPLITS = 3;
+
+type Scorer = (text: string | null) => number;
+
+/**
+ * Best fuzzy score of a text (its anchor, for "ورا كارفور") against the gazetteer,
+ * cached per request
+ */
+function createScorer(places: Place[]): Scorer {
+    const scores = new Map<string, number>();
+    return (text) => {
+        if (!text) {
+            return 0;
+        }
+        let value = scores.get(text);
+        if (value === undefined) {
+            const query = extractRelation(text)?.anchorText ?? text;
+            value = rankCandidates(query, places, 1)[0]?.confidence ?? 0;
+            scores.set(text, value);
+        }
+        return value;
+    };
+}
+
+function joinTokens(tokens: string[]): string | null {
+    const text = tokens.join(' ').trim();
+    return text || null;
+}
+
+/**
+ * Split a transcript into alternative origin / destination readings,
+ * structured readings first and the whole utterance as a destination last
+ */
+export function parseTripReadings(transcript: string): TripReading[] {
+    const normalized = normalizeText(transcript);
+    const tokens = normalized.split(/\s+/).filter(Boolean);
+    const readings: TripReading[] = [];
+
+    const originIndex = tokens.findIndex(token => ORIGIN_MARKERS.has(token));
+
+    tokens.forEach((token, index) => {
+        const standalone = DESTINATION_MARKERS.has(token);
+        // An attached "ل" only counts when "من" makes the structure explicit,
+        // and never on the first word of the origin
+        const attached = !standalone &&
+            originIndex >= 0 &&
+            index !== originIndex &&
+            index !== originIndex + 1 &&
+            token.length > 2 &&
+            token.startsWith(ATTACHED_DESTINATION_PREFIX);
+        if (!standalone && !attached) {
+            return;
+        }
+
+        // For an attached prefix, try both with and without it ("لتوجنين" / "لكصر")
+        const heads = standalone ? [[]] : [[token.slice(ATTACHED_DESTINATION_PREFIX.length)], [token]];
+        for (const head of heads) {
+            if (originIndex >= 0 && originIndex < index) {
+                // من X ل Y
+                readings.push({
+                    origin: joinTokens(tokens.slice(originIndex + 1, index)),
+                    destination: joinTokens([...head, ...tokens.slice(index + 1)]),
+                });
+            } else if (originIndex > index) {
+                // ل Y من X
+                readings.push({
+                    origin: joinTokens(tokens.slice(originIndex + 1)),
+                    destination: joinTokens([...head, ...tokens.slice(index + 1, originIndex)]),
+                });
+            } else {
+                // X حتى Y (X may be empty, or an implicit origin)
+                readings.push({
+                    origin: joinTokens(tokens.slice(0, index)),
+                    destination: joinTokens([...head, ...tokens.slice(index + 1)]),
+                });
+            }
+        }
+    });
+
+    // "من X" on its own names only the origin
+    if (originIndex === 0 && readings.length === 0) {
+        readings.push({ origin: joinTokens(tokens.slice(1)), destination: null });
+    }
+
+    readings.push({ origin: null, destination: normalized || null });
+
+    return readings.filter(reading => reading.destination !== null || reading.origin !== null);
+}
+
+/**
+ * Text of a later stop without its leading destination marker or filler,
+ * keeping the better-scoring form when an attached "ل" may belong to the name
+ */
+function cleanStop(tokens: string[], score: Scorer): string | null {
+    let rest = tokens;
+    while (rest.length > 1 && (DESTINATION_MARKERS.has(rest[0]) || STOP_FILLERS.has(rest[0]))) {
+        rest = rest.slice(1);
+    }
+
+    const kept = joinTokens(rest);
+    const head = rest[0] ?? '';
+    if (head.length > 2 && head.startsWith(ATTACHED_DESTINATION_PREFIX)) {
+        const stripped = joinTokens([head.slice(ATTACHED_DESTINATION_PREFIX.length), ...rest.slice(1)]);
+        return score(stripped) > score(kept) ? stripped : kept;
+    }
+    return kept;
+}
+
+/**
+ * Split a destination text into ordered stops
+ *
+ * Every combination of sequencing words is tried; splits where some stop does not
+ * reach the fuzzy confidence threshold are rejected (the "و" may belong to a name),
+ * and among the rest the one with the most stops, then the highest score, wins.
+ */
+function splitStops(text: string, score: Scorer): string[] {
+    const tokens = text.split(/\s+/).filter(Boolean);
+
+    const splitPoints: Array<{ index: number; head: string[] }> = [];
+    tokens.forEach((token, index) => {
+        if (index === 0 || splitPoints.length >= MAX_STOP_SPLITS) {
+            return;
+        }
+        if (SEQUENCE_MARKERS.has(token)) {
+            splitPoints.push({ index, head: [] });
+        } else if (
+            token.length > 2 &&
+            token.startsWith(ATTACHED_SEQUENCE_PREFIX) &&
+            !NOT_ATTACHED_SEQUENCE.has(token)
+        ) {
+            splitPoints.push({ index, head: [token.slice(ATTACHED_SEQUENCE_PREFIX.length)] });
+        }
+    });
+
+    let best = [text];
+    let bestScore = -1;
+    for (let mask = 1; mask < 1 << splitPoints.length; mask++) {
+        const chosen = splitPoints.filter((_, i) => mask & (1 << i));
+
+        const stops: Array<string | null> = [];
+        let start = 0;
+        let head: string[] = [];
+        for (const point of chosen) {
+            const segment = [...head, ...tokens.slice(start, point.index)];
+            stops.push(stops.length === 0 ? joinTokens(segment) : cleanStop(segment, score));
+            start = point.index + 1;
+            head = point.head;
+        }
+        stops.push(cleanStop([...head, ...tokens.slice(start)], score));
+
+        const scores = stops.map(stop => score(stop));
+        if (scores.some(value => value < CONFIDENCE_THRESHOLD)) {
+            continue;
+        }
+
+        const total = scores.reduce((sum, value) => sum + value, 0);
+        if (stops.length > best.length || (stops.length === best.length && total > bestScore)) {
+            best = stops as string[];
+            bestScore = total;
+        }
+    }
+
+    return best;
+}
+
+/**
+ * Pick the reading whose parts best match the gazetteer (fuzzy scores only),
+ * counting every stop so that a reading does not win by swallowing one into the origin
+ */
+function chooseReading(readings: TripReading[], score: Scorer): { reading: TripReading; stops: string[] } {
+    let best: { reading: TripReading; stops: string[] } = { reading: { origin: null, destination: null }, stops: [] };
+    let bestScore = -1;
+
+    // Ties keep the earlier (structured) reading
+    for (const reading of readings) {
+        const stops = reading.destination ? splitStops(reading.destination, score) : [];
+        const readingScore = score(reading.origin) + stops.reduce((sum, stop) => sum + score(stop), 0);
+        if (readingScore > bestScore) {
+            best = { reading, stops };
+            bestScore = readingScore;
+        }
+    }
+    return best;
+}
+
+/**
+ * Resolve the origin (if any) and the stops named in a transcript
+ *
+ * Stops go through the full pipeline (fuzzy, LLM, external geocoders); the origin uses
+ * fuzzy matching only, since the app usually knows the pickup point.
+ */
+export async function resolveTrip(
+    transcript: string,
+    places: Place[],
+    options: ResolveOptions = {}
+): Promise<TripResolution> {
+    const score = createScorer(places);
+    const { reading, stops } = chooseReading(parseTripReadings(transcript), score);
+
+    if (reading.origin || stops.length > 1) {
+        console.log(`[Trip] Origin: "${reading.origin ?? ''}", stops: ${stops.map(stop => `"${stop}"`).join(' → ')}`);
+    }
+
+    // Sequential, to avoid bursts of LLM / geocoder calls
+    const waypoints: DestinationResolution[] = [];
+    for (const stop of stops) {
+        waypoints.push(await resolveDestination(stop, places, { ...options, originalText: transcript }));
+    }
+    const destination = waypoints[waypoints.length - 1] ?? await resolveDestination('', places, options);
+    const origin = reading.origin
+        ? await resolveDestination(reading.origin, places, { ...options, fuzzyOnly: true })
+        : null;
+
+    return { origin, destination, waypoints, stops, reading };
+}
+
+/**
+ * The destination phrase resolveTrip would match for a transcript: the last stop,
+ * reduced to its anchor for relative destinations ("ورا كارفور" → "كارفور")
+ * Null when the utterance names no destination.
+ */
+export function extractDestinationPhrase(transcript: string, places: Place[]): string | null {
+    const { stops } = chooseReading(parseTripReadings(transcript), createScorer(places));
+    const stop = stops[stops.length - 1];
+    if (!stop) {
+        return null;
+    }
+    return extractRelation(stop)?.anchorText ?? stop;
+}
@@ -0,0 +1,26 @@
+import { Request, Response, NextFunction } from 'express';
+import { config } from '../config/env';
+
+/**
+ * Protect admin endpoints with the ADMIN_TOKEN (sent as the `x-admin-token` header)
+ *
+ * Admin endpoints are disabled entirely when ADMIN_TOKEN is not configured.
+ */
+export function requireAdminToken(req: Request, res: Response, next: NextFunction) {
+    if (!config.adminToken) {
+        return res.status(403).json({
+            error: 'ADMIN_DISABLED',
+            message: 'Admin endpoints are disabled. Set ADMIN_TOKEN to enable them.',
+        });
+    }
+
+    const token = String(req.header('x-admin-token') || '');
+    if (token !== config.adminToken) {
+        return res.status(401).json({
+            error: 'UNAUTHORIZED',
+            message: 'Missing or invalid x-admin-token header',
+        });
+    }
+
+    return next();
+}
@@ -0,0 +1,35 @@
+import { Router, Request, Response } from 'express';
+import { getResponseCacheStats, purgeResponseCaches } from '../core/responseCache';
+import { requireAdminToken } from './adminAuth';
+
+const router = Router();
+
+/**
+ * GET /api/cache
+ *
+ * Size, hit / miss and eviction counters of every response cache
+ */
+router.get('/cache', requireAdminToken, (_req: Request, res: Response) => {
+    return res.json({ caches: getResponseCacheStats() });
+});
+
+/**
+ * DELETE /api/cache?name=asr
+ *
+ * Empty one cache (asr, match) or, without a name, all of them
+ */
+router.delete('/cache', requireAdminToken, (req: Request, res: Response) => {
+    const name = req.query.name ? String(req.query.name) : undefined;
+    const purged = purgeResponseCaches(name);
+    if (!purged) {
+        return res.status(404).json({
+            error: 'CACHE_NOT_FOUND',
+            message: `No cache named "${name}"`,
+        });
+    }
+
+    console.log(`[Cache] Purged ${Object.entries(purged).map(([cache, count]) => `${cache}=${count}`).join(', ')}`);
+    return res.json({ purged });
+});
+
+export default router;
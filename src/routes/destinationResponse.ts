@@ -0,0 +1,350 @@
+/**
+ * Response body shared by the destination endpoints (HTTP and streaming)
+ */
+import { DestinationMatch, DestinationResolution, ResolveOptions, EXTERNAL_PLACE_ID } from '../core/destinationMatcher';
+import { resolveTrip, TripResolution } from '../core/tripParser';
+import { normalizeText } from '../core/normalization';
+import { getPlaces, getGazetteerRevision } from '../core/gazetteer';
+import { findParentDistrict } from '../core/placeHierarchy';
+import { createResponseCache } from '../core/responseCache';
+import { countExternalPlaceHits } from '../core/externalPlaceStore';
+import { Transcription } from '../core/asr';
+import { config } from '../config/env';
+
+// Trip resolutions by normalized transcript, gazetteer content and resolve options
+const matchCache = createResponseCache<TripResolution>({ name: 'match', ttlSeconds: config.cacheMatchTtlSeconds });
+
+/**
+ * Cache key for a resolution. The rider's position is rounded to ~100 m so a retry
+ * from a moving car still hits.
+ */
+function matchCacheKey(normalizedTranscript: string, options: ResolveOptions): string {
+    const location = options.location
+        ? `${options.location.lat.toFixed(3)},${options.location.lon.toFixed(3)}`
+        : '-';
+    return [
+        getGazetteerRevision(),
+        options.maxCandidates ?? '-',
+        location,
+        options.skipGeocoder ? 'no-geocoder' : '-',
+        normalizedTranscript,
+    ].join('|');
+}
+
+/**
+ * Whether a matching stage threw (LLM or geocoder outage) for any stop of the trip
+ */
+function hasFailedStage(trip: TripResolution): boolean {
+    return [trip.origin, ...trip.waypoints].some(resolution =>
+        resolution?.trace?.stages.some(stage => stage.outcome === 'failed')
+    );
+}
+
+function withoutTraces(trip: TripResolution): TripResolution {
+    const strip = (resolution: DestinationResolution): DestinationResolution => ({ ...resolution, trace: undefined });
+    return {
+        ...trip,
+        origin: trip.origin && strip(trip.origin),
+        destination: strip(trip.destination),
+        waypoints: trip.waypoints.map(strip),
+    };
+}
+
+/**
+ * Candidate ids of the stored external places a trip resolution offers
+ */
+function externalCandidateIds(trip: TripResolution): string[] {
+    return trip.waypoints
+        .flatMap(stop => [stop.match, ...stop.candidates])
+        .flatMap(match => (match?.source?.candidateId ? [match.source.candidateId] : []));
+}
+
+/**
+ * Resolve a trip, reusing a cached resolution for an identical request. Fuzzy-only
+ * requests (provisional streaming matches) are cheap and not cached; explain requests
+ * always run the stages, to trace them. Resolutions where a stage failed are not cached
+ * either, so an outage does not outlive itself as a cached fuzzy-only answer. A cache hit
+ * still counts a hit for the external candidates it offers, for the review queue.
+ */
+async function resolveTripCached(
+    transcript: string,
+    normalizedTranscript: string,
+    options: ResolveOptions
+): Promise<TripResolution> {
+    if (options.fuzzyOnly || options.explain) {
+        return resolveTrip(transcript, getPlaces(), options);
+    }
+
+    const key = matchCacheKey(normalizedTranscript, options);
+    const cached = matchCache.get(key);
+    if (cached) {
+        console.log('[API] Match cache hit');
+        countExternalPlaceHits(externalCandidateIds(cached));
+        return cached;
+    }
+
+    // Traced to see whether a stage failed; the traces are not part of the response
+    const traced = await resolveTrip(transcript, getPlaces(), { ...options, explain: true });
+    const trip = withoutTraces(traced);
+    if (hasFailedStage(traced)) {
+        console.log('[API] Not caching match: a matching stage failed');
+    } else {
+        matchCache.set(key, trip);
+    }
+    return trip;
+}
+
+/**
+ * Read an `explain` flag from a query string, form field or JSON body
+ */
+export function parseExplainFlag(value: unknown): boolean {
+    return value === true || value === 'true' || value === '1';
+}
+
+/**
+ * Serialize a match into the `destination` / `candidates[]` payload shape
+ * (`confidenceScale` downgrades matches from a suspect transcript)
+ */
+export function toDestinationPayload(match: DestinationMatch, confidenceScale = 1) {
+    // Handle external places from a geocoder (ID = -1)
+    const destinationId = match.place.id === EXTERNAL_PLACE_ID ? null : match.place.id;
+    const parentDistrict = findParentDistrict(match.place, getPlaces());
+
+    return {
+        id: destinationId, // null for external geocoder results
+        canonicalName: match.place.canonicalName,
+        category: match.place.category ?? 'other',
+        parentDistrict: parentDistrict
+            ? { id: parentDistrict.id, canonicalName: parentDistrict.canonicalName }
+            : null,
+        matchedVariant: match.matchedVariant,
+        lat: match.place.lat,
+        lon: match.place.lon,
+        confidence: match.confidence * confidenceScale,
+        matchedBy: match.matchedBy, // 'fuzzy', 'phonetic', 'llm', or the geocoder ('google', 'nominatim', 'mock')
+        relation: match.relation ?? null, // { type, radiusMeters } when the destination is relative to this place
+        distanceKm: match.distanceKm ?? null, // From the rider, when their position was sent
+        source: match.source ?? null, // { provider, externalId, formattedAddress, attribution } for external places
+    };
+}
+
+/**
+ * Normalize a transcript, resolve it against the gazetteer and build the
+ * response body shared by the audio, text and streaming endpoints
+ *
+ * Audio endpoints pass the transcription with its hallucination check: matches from a
+ * suspect transcript have their confidence scaled by ASR_SUSPECT_PENALTY and are marked
+ * ambiguous, so the client asks the rider to confirm.
+ */
+export async function buildDestinationResponse(
+    transcript: string,
+    options: ResolveOptions = {},
+    transcription?: Transcription
+) {
+    // Normalize the transcript
+    const normalizedTranscript = normalizeText(transcript);
+
+    console.log(`[API] Original transcript: "${transcript}"`);
+    console.log(`[API] Normalized transcript: "${normalizedTranscript}"`);
+
+    // Split origin / destination, then resolve (tries fuzzy first, then LLM fallback)
+    const trip = await resolveTripCached(transcript, normalizedTranscript, options);
+    const { match, candidates } = trip.destination;
+
+    const suspect = transcription?.check.verdict === 'suspect';
+    const toPayload = (m: DestinationMatch) => toDestinationPayload(m, suspect ? config.asrSuspectPenalty : 1);
+    const ambiguous = trip.destination.ambiguous || (suspect && match !== null);
+    const transcriptCheck = transcription
+        ? {
+            verdict: transcription.check.verdict,
+            issues: transcription.check.issues,
+            rawTranscript: transcription.transcript,
+        }
+        : undefined;
+
+    const origin = trip.origin?.match ? toPayload(trip.origin.match) : null;
+    const waypoints = trip.waypoints.map((stop, index) => ({
+        text: trip.stops[index],
+        destination: stop.match ? toPayload(stop.match) : null,
+    }));
+
+    // Stage-by-stage traces, only when asked for
+    const explain = options.explain
+        ? {
+            reading: trip.reading,
+            origin: trip.origin?.trace ?? null,
+            stops: trip.waypoints.map((stop, index) => ({ text: trip.stops[index], trace: stop.trace ?? null })),
+        }
+        : undefined;
+
+    if (!match) {
+        // No confident match found
+        return {
+            transcript,
+            normalizedTranscript,
+            origin,
+            destination: null,
+            waypoints,
+            candidates: candidates.map(toPayload),
+            ambiguous,
+            ...(transcriptCheck && { transcriptCheck }),
+            ...(explain && { explain }),
+            error: 'لم نتمكن من تحديد وجهة في نواكشوط. حاول مرة أخرى بالتوضيح.',
+        };
+    }
+
+    console.log(`[API] Matched destination: ${match.place.canonicalName} (confidence: ${match.confidence.toFixed(2)}, method: ${match.matchedBy})`);
+
+    return {
+        transcript,
+        normalizedTranscript,
+        origin,
+        destination: toPayload(match),
+        waypoints,
+        candidates: candidates.map(toPayload),
+        ambiguous,
+        ...(transcriptCheck && { transcriptCheck }),
+        ...(explain && { explain }),
+        error: null,
+    };
+}
+
+type DestinationResponseBody = Awaited<ReturnType<typeof buildDestinationResponse>>;
+type DestinationPayload = ReturnType<typeof toDestinationPayload>;
+
+/**
+ * Identity of a payload place; external places have no id
+ */
+function placeKey(payload: DestinationPayload): string {
+    return payload.id !== null ? String(payload.id) : `${payload.canonicalName}@${payload.lat},${payload.lon}`;
+}
+
+/**
+ * Confidence in the winning place across hypotheses. Agreement raises it: the evidence
+ * of every hypothesis (its confidence in the place as destination or candidate) is
+ * combined as independent signals, 1 - Π(1 - c). Disagreement lowers it: the result is
+ * scaled by the share of hypotheses that found the place among those that resolved to
+ * something, so passes that heard nothing do not count against it.
+ */
+function fuseConfidence(key: string, bodies: DestinationResponseBody[], evidence: Array<Map<string, number>>): number {
+    const combined = 1 - evidence.reduce((product, confidences) => product * (1 - (confidences.get(key) ?? 0)), 1);
+    const supporting = evidence.filter(confidences => confidences.has(key)).length;
+    const dissenting = bodies.filter((body, index) =>
+        body.destination !== null && placeKey(body.destination) !== key && !evidence[index].has(key)
+    ).length;
+    return combined * (supporting / (supporting + dissenting));
+}
+
+/**
+ * Resolve every ASR hypothesis and answer with the one whose destination has the
+ * strongest combined evidence: the confidence each usable hypothesis gives that place
+ * (as its destination or a candidate, 0 when absent), averaged over the hypotheses.
+ * Passes that agree therefore beat a single confident outlier. Rejected hypotheses
+ * are not matched; at least one must be usable.
+ *
+ * Hypotheses are matched without the external geocoder (fuzzy and LLM only), so passes
+ * that end up unused cost no geocoder calls and leave no stored candidates. Only when
+ * none of them finds a destination is the first usable one resolved again with it.
+ * The destination's confidence is the fused one (see fuseConfidence).
+ *
+ * With a single transcription this is buildDestinationResponse, without `asrFusion`.
+ */
+export async function buildFusedDestinationResponse(transcriptions: Transcription[], options: ResolveOptions = {}) {
+    const usable = transcriptions.filter(t => t.check.verdict !== 'rejected');
+    if (!usable.length) {
+        throw new Error('Every ASR hypothesis was rejected');
+    }
+    if (transcriptions.length === 1) {
+        return buildDestinationResponse(usable[0].check.text, options, usable[0]);
+    }
+
+    // Sequentially, to avoid bursts of LLM calls
+    const bodies = new Map<Transcription, DestinationResponseBody>();
+    for (const transcription of usable) {
+        bodies.set(
+            transcription,
+            await buildDestinationResponse(transcription.check.text, { ...options, skipGeocoder: true }, transcription)
+        );
+    }
+
+    // Best confidence per place in each hypothesis
+    const evidence = [...bodies.values()].map((body) => {
+        const confidences = new Map<string, number>();
+        for (const payload of [body.destination, ...body.candidates]) {
+            if (payload) {
+                const key = placeKey(payload);
+                confidences.set(key, Math.max(confidences.get(key) ?? 0, payload.confidence));
+            }
+        }
+        return confidences;
+    });
+
+    // Only places some hypothesis resolved to can win; ties go to the earlier hypothesis
+    let winner: { key: string; score: number; support: number } | null = null;
+    for (const body of bodies.values()) {
+        if (!body.destination) {
+            continue;
+        }
+        const key = placeKey(body.destination);
+        const score = evidence.reduce((sum, confidences) => sum + (confidences.get(key) ?? 0), 0) / evidence.length;
+        if (!winner || score > winner.score) {
+            winner = { key, score, support: evidence.filter(confidences => confidences.has(key)).length };
+        }
+    }
+
+    // The winning hypothesis: the one most confident in the winning place (else the first usable)
+    let chosen = usable[0];
+    let body: DestinationResponseBody;
+    if (winner) {
+        let best = -1;
+        for (const [transcription, candidateBody] of bodies) {
+            if (candidateBody.destination && placeKey(candidateBody.destination) === winner.key &&
+                candidateBody.destination.confidence > best) {
+                best = candidateBody.destination.confidence;
+                chosen = transcription;
+            }
+        }
+
+        body = bodies.get(chosen) as DestinationResponseBody;
+        if (body.destination) {
+            const { destination, waypoints } = body;
+            const confidence = fuseConfidence(winner.key, [...bodies.values()], evidence);
+            const fused = { ...destination, confidence };
+            const last = waypoints.length - 1;
+            body = {
+                ...body,
+                destination: fused,
+                waypoints: waypoints.map((waypoint, index) =>
+                    (index === last && waypoint.destination ? { ...waypoint, destination: fused } : waypoint)
+                ),
+            };
+            console.log(
+                `[API] Fused ${usable.length} hypotheses: ${winner.key} from "${chosen.hypothesis}" (score ${winner.score.toFixed(2)}, support ${winner.support}/${evidence.length}, confidence ${destination.confidence.toFixed(2)} → ${confidence.toFixed(2)})`
+            );
+        }
+    } else {
+        // Nothing found without the geocoder: give it one try, with the first usable hypothesis
+        body = await buildDestinationResponse(chosen.check.text, options, chosen);
+        bodies.set(chosen, body);
+    }
+
+    return {
+        ...body,
+        asrFusion: {
+            hypothesis: chosen.hypothesis,
+            score: winner?.score ?? null, // Combined evidence for the destination, null without one
+            support: winner?.support ?? 0, // Hypotheses that found the destination at all
+            hypotheses: transcriptions.map((transcription) => {
+                const destination = bodies.get(transcription)?.destination ?? null;
+                return {
+                    hypothesis: transcription.hypothesis,
+                    transcript: transcription.check.text,
+                    verdict: transcription.check.verdict,
+                    destination: destination
+                        ? { id: destination.id, canonicalName: destination.canonicalName, confidence: destination.confidence }
+                        : null,
+                };
+            }),
+        },
+    };
+}
@@ -1,17 +1,15 @@
 import { Router, Request, Response } from 'express';
 import multer from 'multer';
-import { transcribeAudio } from '../core/asr';
-import { resolveDestination, Place } from '../core/destinationMatcher';
-import { normalizeText } from '../core/normalization';
+import { transcribeHypotheses, Transcription } from '../core/asr';
+import { preprocessAudio, AudioError, PreprocessedAudio } from '../core/audioPreprocessor';
+import { parseTranscriptionHints } from '../core/asrPrompt';
+import { parseGeoPoint } from '../core/geo';
 import { config } from '../config/env';
-import placesData from '../data/places.json';
+import { buildDestinationResponse, buildFusedDestinationResponse, parseExplainFlag } from './destinationResponse';
 import path from 'path';
 import crypto from 'crypto';
 import { promises as fs } from 'fs';
 
-// Load places gazetteer
-const places: Place[] = placesData as Place[];
-
 // Configure multer for in-memory file uploads
 const upload = multer({
     storage: multer.memoryStorage(),
@@ -38,6 +36,14 @@ const upload = multer({
 
 const router = Router();
 
+// Maximum number of transcripts accepted by the batch text endpoint
+const MAX_BATCH_SIZE = 50;
+
+const INVALID_LOCATION_BODY = {
+    error: 'INVALID_LOCATION',
+    message: '"lat" and "lon" must both be valid coordinates when a rider position is sent.',
+};
+
 function safeBasename(filename: string): string {
     return path.basename(filename).replace(/[^\w.\-]+/g, '_');
 }
@@ -123,6 +129,11 @@ router.post(
                 });
             }
 
+            const location = parseGeoPoint(req.body?.lat, req.body?.lon);
+            if (location === null) {
+                return res.status(400).json(INVALID_LOCATION_BODY);
+            }
+
             console.log(`[API] Processing audio file: ${req.file.originalname} (${req.file.size} bytes)`);
 
             // Optional debug: save the received audio so you can verify what the server actually got.
@@ -131,77 +142,76 @@ router.post(
                 console.log(`[Debug] Saved incoming audio: ${saved.path}`);
             }
 
-            // Step 1: Transcribe audio using Whisper
-            let transcript: string;
+            const savedAudio = saved
+                ? {
+                    filename: saved.filename,
+                    downloadPath: `/api/debug/audio/${saved.filename}`,
+                }
+                : null;
+
+            // Step 1: Decode, resample and trim; silent or accidental clips stop here
+            let audio: PreprocessedAudio;
             try {
-                transcript = await transcribeAudio(req.file.buffer, req.file.mimetype, req.file.originalname);
+                audio = await preprocessAudio(req.file.buffer, req.file.mimetype, req.file.originalname);
+            } catch (error) {
+                if (error instanceof AudioError) {
+                    console.log(`[API] ${error.code}: ${error.message}`);
+                    return res.status(422).json({
+                        error: error.code,
+                        message: error.message,
+                        audio: { durationMs: error.durationMs },
+                        savedAudio,
+                    });
+                }
+                throw error;
+            }
+
+            const audioInfo = {
+                durationMs: audio.durationMs, // null when the format could not be decoded
+                trimmedDurationMs: audio.trimmedDurationMs,
+                preprocessed: audio.preprocessed,
+            };
+
+            // Step 2: Transcribe audio using Whisper (once per ASR_HYPOTHESES pass)
+            let transcriptions: Transcription[];
+            try {
+                transcriptions = await transcribeHypotheses(
+                    audio.buffer,
+                    audio.mimeType,
+                    audio.filename,
+                    parseTranscriptionHints(req.body)
+                );
             } catch (error) {
                 console.error('[API] ASR error:', error);
                 return res.status(500).json({
                     error: 'ASR_FAILED',
                     message: 'Failed to transcribe audio',
                     details: error instanceof Error ? error.message : 'Unknown error',
-                    savedAudio: saved
-                        ? {
-                            filename: saved.filename,
-                            downloadPath: `/api/debug/audio/${saved.filename}`,
-                        }
-                        : null,
+                    savedAudio,
                 });
             }
 
-            // Step 2: Normalize the transcript
-            const normalizedTranscript = normalizeText(transcript);
-
-            console.log(`[API] Original transcript: "${transcript}"`);
-            console.log(`[API] Normalized transcript: "${normalizedTranscript}"`);
-
-            // Step 3: Resolve destination (tries fuzzy first, then LLM fallback)
-            const match = await resolveDestination(transcript, places);
-
-            if (!match) {
-                // No confident match found
-                return res.status(200).json({
+            // Step 3: Nothing left after removing prompt echoes, loops and boilerplate
+            if (transcriptions.every(t => t.check.verdict === 'rejected')) {
+                const [{ transcript, check }] = transcriptions;
+                return res.status(422).json({
+                    error: 'UNRELIABLE_TRANSCRIPT',
+                    message: 'The transcript looks like an ASR hallucination rather than speech.',
                     transcript,
-                    normalizedTranscript,
-                    destination: null,
-                    error: 'لم نتمكن من تحديد وجهة في نواكشوط. حاول مرة أخرى بالتوضيح.',
-                    savedAudio: saved
-                        ? {
-                            filename: saved.filename,
-                            downloadPath: `/api/debug/audio/${saved.filename}`,
-                        }
-                        : null,
+                    transcriptCheck: { verdict: check.verdict, issues: check.issues },
+                    audio: audioInfo,
+                    savedAudio,
                 });
             }
 
-            // Step 4: Return successful match
-            console.log(`[API] Matched destination: ${match.place.canonicalName} (confidence: ${match.confidence.toFixed(2)}, method: ${match.matchedBy})`);
-
-            // Handle external places from Google Maps (ID = -1)
-            const destinationId = match.place.id === -1 ? null : match.place.id;
-
-            return res.status(200).json({
-                transcript,
-                normalizedTranscript,
-                destination: {
-                    id: destinationId, // null for Google Maps results
-                    canonicalName: match.place.canonicalName,
-                    matchedVariant: match.matchedVariant,
-                    lat: match.place.lat,
-                    lon: match.place.lon,
-                    confidence: match.confidence,
-                    matchedBy: match.matchedBy, // 'fuzzy', 'llm', or 'google'
-                },
-                error: null,
-                savedAudio: saved
-                    ? {
-                        filename: saved.filename,
-                        downloadPath: `/api/debug/audio/${saved.filename}`,
-                    }
-                    : null,
+            // Steps 4-6: Normalize, resolve (fusing the hypotheses) and build the response
+            const body = await buildFusedDestinationResponse(transcriptions, {
+                location,
+                explain: parseExplainFlag(req.query.explain ?? req.body?.explain),
             });
 
+            return res.status(200).json({ ...body, audio: audioInfo, savedAudio });
+
         } catch (error) {
             console.error('[API] Unexpected error:', error);
 
@@ -214,4 +224,101 @@ router.post(
     }
 );
 
+/**
+ * POST /api/destination-from-text
+ *
+ * Accepts a transcript (JSON body `{ "transcript": "..." }`) and matches it to
+ * a Nouakchott destination without going through ASR
+ */
+router.post('/destination-from-text', async (req: Request, res: Response) => {
+    try {
+        const transcript = req.body?.transcript;
+
+        if (typeof transcript !== 'string' || !transcript.trim()) {
+            return res.status(400).json({
+                error: 'MISSING_TRANSCRIPT',
+                message: 'No transcript provided. Please send a JSON body with a non-empty "transcript" string.',
+            });
+        }
+
+        const location = parseGeoPoint(req.body?.lat, req.body?.lon);
+        if (location === null) {
+            return res.status(400).json(INVALID_LOCATION_BODY);
+        }
+
+        console.log(`[API] Processing text query (${transcript.length} chars)`);
+
+        const body = await buildDestinationResponse(transcript.trim(), {
+            location,
+            explain: parseExplainFlag(req.query.explain ?? req.body?.explain),
+        });
+
+        return res.status(200).json({ ...body, savedAudio: null });
+    } catch (error) {
+        console.error('[API] Unexpected error:', error);
+
+        return res.status(500).json({
+            error: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+            details: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+/**
+ * POST /api/destination-from-text/batch
+ *
+ * Accepts `{ "transcripts": ["...", "..."] }` and resolves each one in order.
+ * Each entry of `results` has the same shape as /destination-from-text.
+ */
+router.post('/destination-from-text/batch', async (req: Request, res: Response) => {
+    try {
+        const transcripts = req.body?.transcripts;
+
+        if (
+            !Array.isArray(transcripts) ||
+            transcripts.length === 0 ||
+            transcripts.some((t) => typeof t !== 'string' || !t.trim())
+        ) {
+            return res.status(400).json({
+                error: 'MISSING_TRANSCRIPT',
+                message: 'Please send a JSON body with a non-empty "transcripts" array of non-empty strings.',
+            });
+        }
+
+        if (transcripts.length > MAX_BATCH_SIZE) {
+            return res.status(400).json({
+                error: 'BATCH_TOO_LARGE',
+                message: `A batch may contain at most ${MAX_BATCH_SIZE} transcripts.`,
+            });
+        }
+
+        const location = parseGeoPoint(req.body?.lat, req.body?.lon);
+        if (location === null) {
+            return res.status(400).json(INVALID_LOCATION_BODY);
+        }
+
+        const explain = parseExplainFlag(req.query.explain ?? req.body?.explain);
+
+        console.log(`[API] Processing text batch (${transcripts.length} transcripts)`);
+
+        // Resolve sequentially to avoid bursts of LLM / geocoder calls
+        const results = [];
+        for (const transcript of transcripts as string[]) {
+            const body = await buildDestinationResponse(transcript.trim(), { location, explain });
+            results.push({ ...body, savedAudio: null });
+        }
+
+        return res.status(200).json({ results });
+    } catch (error) {
+        console.error('[API] Unexpected error:', error);
+
+        return res.status(500).json({
+            error: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+            details: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
 export default router;
@@ -0,0 +1,296 @@
+/**
+ * WebSocket /api/destination-stream
+ *
+ * Streams audio while the rider is still speaking. Whisper has no incremental API,
+ * so the audio received so far is re-transcribed every STREAM_PARTIAL_INTERVAL_MS
+ * in a single ASR pass and resolved with fuzzy matching only (no ASR_HYPOTHESES
+ * fan-out or LLM / geocoder calls for provisional results). A partial needs at least
+ * STREAM_PARTIAL_MIN_BYTES of new audio and a stream gets at most STREAM_MAX_PARTIALS,
+ * which bounds the ASR calls of a slow or long stream. When the client ends the
+ * stream the full recording goes through the same pipeline as
+ * POST /api/destination-from-audio.
+ *
+ * Client → server:
+ *   text   { "type": "start", "mimeType": "audio/webm", "filename": "ride.webm",
+ *            "district"?: "تفرغ زينة", "placeIds"?: [12, 28], "lat"?: 18.09, "lon"?: -15.97 }
+ *          (optional; district/placeIds bias the ASR prompt, lat/lon the ranking)
+ *   binary audio chunks, in recording order (e.g. MediaRecorder `dataavailable`)
+ *   text   { "type": "end" }
+ *
+ * Server → client:
+ *   { "type": "ready" }
+ *   { "type": "partial", ...destination response }  (provisional, may repeat)
+ *   { "type": "final", ...destination response }    (then the socket closes)
+ *   { "type": "error", "error": CODE, "message": "...", "details"? }
+ */
+import type { Server } from 'http';
+import { WebSocketServer, WebSocket, RawData } from 'ws';
+import { config } from '../config/env';
+import { transcribeAudio, transcribeHypotheses, Transcription } from '../core/asr';
+import { parseTranscriptionHints, TranscriptionHints } from '../core/asrPrompt';
+import { GeoPoint, parseGeoPoint } from '../core/geo';
+import { buildDestinationResponse, buildFusedDestinationResponse, parseExplainFlag } from './destinationResponse';
+import { preprocessAudio, AudioError, PreprocessedAudio } from '../core/audioPreprocessor';
+
+const STREAM_PATH = '/api/destination-stream';
+
+// Streams that never send "end" are closed after this long
+const MAX_STREAM_DURATION_MS = 2 * 60 * 1000;
+
+interface StreamSession {
+    chunks: Buffer[];
+    bytes: number;
+    mimeType: string;
+    filename: string;
+    hints: TranscriptionHints;
+    location?: GeoPoint;
+    explain: boolean; // Attach the matching trace to the final result
+    transcribedBytes: number; // Audio covered by the last partial transcript
+    partials: number; // Partial transcriptions started
+    lastPartialTranscript: string | null;
+    partial: Promise<void> | null; // Partial transcription in flight
+    ended: boolean;
+}
+
+function send(ws: WebSocket, message: Record<string, unknown>): void {
+    if (ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify(message));
+    }
+}
+
+function sendError(ws: WebSocket, error: string, message: string, details?: string): void {
+    send(ws, { type: 'error', error, message, ...(details ? { details } : {}) });
+}
+
+function toBuffer(data: RawData): Buffer {
+    if (Array.isArray(data)) {
+        return Buffer.concat(data);
+    }
+    return Buffer.isBuffer(data) ? data : Buffer.from(data);
+}
+
+/**
+ * Transcribe the audio received so far and send a provisional match
+ */
+async function runPartial(ws: WebSocket, session: StreamSession): Promise<void> {
+    const bytes = session.bytes;
+    try {
+        const audio = await preprocessAudio(Buffer.concat(session.chunks), session.mimeType, session.filename);
+        const transcription = await transcribeAudio(audio.buffer, audio.mimeType, audio.filename, session.hints);
+        const transcript = transcription.check.text;
+        session.transcribedBytes = bytes;
+
+        // The final result supersedes anything still in flight; hallucinated partials are dropped
+        if (
+            session.ended ||
+            transcription.check.verdict === 'rejected' ||
+            !transcript ||
+            transcript === session.lastPartialTranscript
+        ) {
+            return;
+        }
+        session.lastPartialTranscript = transcript;
+
+        const body = await buildDestinationResponse(
+            transcript,
+            { fuzzyOnly: true, location: session.location },
+            transcription
+        );
+        if (!session.ended) {
+            send(ws, { type: 'partial', ...body });
+        }
+    } catch (error) {
+        // Truncated audio may not decode yet, and the rider may not have spoken yet;
+        // the next partial or the final pass will retry
+        session.transcribedBytes = bytes;
+        if (error instanceof AudioError) {
+            return;
+        }
+        console.warn('[Stream] Partial transcription failed:', error instanceof Error ? error.message : error);
+    }
+}
+
+async function finish(ws: WebSocket, session: StreamSession): Promise<void> {
+    session.ended = true;
+    await session.partial;
+
+    if (session.bytes === 0) {
+        sendError(ws, 'MISSING_AUDIO', 'The stream ended before any audio was received.');
+        ws.close(1000);
+        return;
+    }
+
+    console.log(`[Stream] Finalizing ${session.filename} (${session.bytes} bytes)`);
+
+    let audio: PreprocessedAudio;
+    try {
+        audio = await preprocessAudio(Buffer.concat(session.chunks), session.mimeType, session.filename);
+    } catch (error) {
+        if (!(error instanceof AudioError)) {
+            throw error;
+        }
+        sendError(ws, error.code, error.message);
+        ws.close(1000);
+        return;
+    }
+
+    let transcriptions: Transcription[];
+    try {
+        transcriptions = await transcribeHypotheses(audio.buffer, audio.mimeType, audio.filename, session.hints);
+    } catch (error) {
+        console.error('[Stream] ASR error:', error);
+        sendError(ws, 'ASR_FAILED', 'Failed to transcribe audio', error instanceof Error ? error.message : 'Unknown error');
+        ws.close(1011);
+        return;
+    }
+
+    if (transcriptions.every(t => t.check.verdict === 'rejected')) {
+        sendError(ws, 'UNRELIABLE_TRANSCRIPT', 'The transcript looks like an ASR hallucination rather than speech.');
+        ws.close(1000);
+        return;
+    }
+
+    const body = await buildFusedDestinationResponse(transcriptions, {
+        location: session.location,
+        explain: session.explain,
+    });
+    send(ws, {
+        type: 'final',
+        ...body,
+        audio: {
+            durationMs: audio.durationMs,
+            trimmedDurationMs: audio.trimmedDurationMs,
+            preprocessed: audio.preprocessed,
+        },
+        savedAudio: null,
+    });
+    ws.close(1000);
+}
+
+function handleConnection(ws: WebSocket): void {
+    const session: StreamSession = {
+        chunks: [],
+        bytes: 0,
+        mimeType: 'audio/webm',
+        filename: 'stream.webm',
+        hints: {},
+        explain: false,
+        transcribedBytes: 0,
+        partials: 0,
+        lastPartialTranscript: null,
+        partial: null,
+        ended: false,
+    };
+
+    const fail = (error: string, message: string, details?: string) => {
+        session.ended = true;
+        sendError(ws, error, message, details);
+        ws.close(1008);
+    };
+
+    const partialTimer = config.streamPartialIntervalMs > 0
+        ? setInterval(() => {
+            if (
+                session.ended ||
+                session.partial ||
+                session.bytes === session.transcribedBytes ||
+                session.bytes - session.transcribedBytes < config.streamPartialMinBytes ||
+                (config.streamMaxPartials > 0 && session.partials >= config.streamMaxPartials)
+            ) {
+                return;
+            }
+            session.partials++;
+            session.partial = runPartial(ws, session).finally(() => {
+                session.partial = null;
+            });
+        }, config.streamPartialIntervalMs)
+        : null;
+
+    const deadline = setTimeout(() => {
+        if (!session.ended) {
+            fail('STREAM_TIMEOUT', `Streams must end within ${MAX_STREAM_DURATION_MS / 1000} seconds.`);
+        }
+    }, MAX_STREAM_DURATION_MS);
+
+    const cleanup = () => {
+        session.ended = true;
+        if (partialTimer) {
+            clearInterval(partialTimer);
+        }
+        clearTimeout(deadline);
+    };
+
+    ws.on('message', (data: RawData, isBinary: boolean) => {
+        if (session.ended) {
+            return;
+        }
+
+        if (isBinary) {
+            const chunk = toBuffer(data);
+            if (session.bytes + chunk.length > config.maxFileSize) {
+                fail('FILE_TOO_LARGE', `Audio exceeds the maximum size of ${config.maxFileSize} bytes.`);
+                return;
+            }
+            session.chunks.push(chunk);
+            session.bytes += chunk.length;
+            return;
+        }
+
+        let message: {
+            type?: unknown;
+            mimeType?: unknown;
+            filename?: unknown;
+            district?: unknown;
+            placeIds?: unknown;
+            lat?: unknown;
+            lon?: unknown;
+            explain?: unknown;
+        };
+        try {
+            message = JSON.parse(toBuffer(data).toString('utf8'));
+        } catch {
+            fail('INVALID_MESSAGE', 'Text messages must be JSON.');
+            return;
+        }
+
+        if (message.type === 'start') {
+            if (typeof message.mimeType === 'string' && message.mimeType) {
+                session.mimeType = message.mimeType;
+            }
+            if (typeof message.filename === 'string' && message.filename) {
+                session.filename = message.filename;
+            }
+            session.hints = parseTranscriptionHints(message);
+            const location = parseGeoPoint(message.lat, message.lon);
+            if (location === null) {
+                fail('INVALID_MESSAGE', '"lat" and "lon" must both be valid coordinates.');
+                return;
+            }
+            session.location = location;
+            session.explain = parseExplainFlag(message.explain);
+        } else if (message.type === 'end') {
+            cleanup();
+            finish(ws, session).catch((error) => {
+                console.error('[Stream] Unexpected error:', error);
+                sendError(ws, 'INTERNAL_ERROR', 'An unexpected error occurred', error instanceof Error ? error.message : 'Unknown error');
+                ws.close(1011);
+            });
+        } else {
+            fail('INVALID_MESSAGE', 'Unknown message type; expected "start" or "end".');
+        }
+    });
+
+    ws.on('close', cleanup);
+    ws.on('error', (error) => console.error('[Stream] Socket error:', error));
+
+    send(ws, { type: 'ready' });
+}
+
+/**
+ * Attach the streaming endpoint to the HTTP server
+ */
+export function attachDestinationStream(server: Server): WebSocketServer {
+    const wss = new WebSocketServer({ server, path: STREAM_PATH, maxPayload: config.maxFileSize });
+    wss.on('connection', handleConnection);
+    return wss;
+}
@@ -0,0 +1,100 @@
+import { Router, Request, Response } from 'express';
+import {
+    listExternalPlaces,
+    promoteExternalPlace,
+    rejectExternalPlace,
+    ExternalPlaceError,
+    ExternalPlaceStatus,
+} from '../core/externalPlaceStore';
+import { GazetteerError } from '../core/gazetteer';
+import { purgeResponseCaches } from '../core/responseCache';
+import { requireAdminToken } from './adminAuth';
+
+const router = Router();
+
+const STATUS_BY_CODE: Record<ExternalPlaceError['code'] | GazetteerError['code'], number> = {
+    VALIDATION_ERROR: 400,
+    CANDIDATE_NOT_FOUND: 404,
+    ALREADY_REVIEWED: 409,
+    PLACE_NOT_FOUND: 404,
+    DUPLICATE_ID: 409,
+    DUPLICATE_VARIANT: 409,
+};
+
+const CANDIDATE_STATUSES: ExternalPlaceStatus[] = ['pending', 'promoted', 'rejected'];
+
+/**
+ * Map candidate / gazetteer errors to their HTTP status, anything else to a 500
+ */
+function sendError(res: Response, error: unknown) {
+    if (error instanceof ExternalPlaceError || error instanceof GazetteerError) {
+        return res.status(STATUS_BY_CODE[error.code]).json({
+            error: error.code,
+            message: error.message,
+        });
+    }
+
+    console.error('[ExternalPlaces] Unexpected error:', error);
+    return res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: error instanceof Error ? error.message : 'Unknown error',
+    });
+}
+
+/**
+ * GET /api/external-places?status=pending
+ *
+ * Places found by external geocoders (defaults to pending candidates, most requested first)
+ */
+router.get('/external-places', requireAdminToken, (req: Request, res: Response) => {
+    const status = String(req.query.status || 'pending') as ExternalPlaceStatus;
+    if (!CANDIDATE_STATUSES.includes(status)) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: `"status" must be one of ${CANDIDATE_STATUSES.join(', ')}`,
+        });
+    }
+    const candidates = [...listExternalPlaces(status)].sort((a, b) => b.hits - a.hits);
+    return res.json({ candidates });
+});
+
+/**
+ * POST /api/external-places/:id/promote
+ *
+ * Create a gazetteer place from a candidate. Optional body overrides:
+ * { id?, canonicalName?, category?, parentId?, variants? }
+ */
+router.post('/external-places/:id/promote', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const { id, canonicalName, category, parentId, variants } = req.body ?? {};
+        const result = await promoteExternalPlace(String(req.params.id), {
+            id,
+            canonicalName,
+            category,
+            parentId,
+            variants,
+        });
+        // Cached matches still resolve to the candidate (geocoder stage) instead of the new place
+        purgeResponseCaches('match');
+        return res.status(201).json(result);
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * POST /api/external-places/:id/reject
+ */
+router.post('/external-places/:id/reject', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const candidate = await rejectExternalPlace(String(req.params.id));
+        // Cached matches may still offer the rejected candidate
+        purgeResponseCaches('match');
+        return res.json({ candidate });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+export default router;
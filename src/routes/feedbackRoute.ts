@@ -0,0 +1,108 @@
+import { Router, Request, Response } from 'express';
+import {
+    recordFeedback,
+    listFeedback,
+    approveFeedback,
+    rejectFeedback,
+    FeedbackError,
+    FeedbackStatus,
+} from '../core/feedbackStore';
+import { GazetteerError } from '../core/gazetteer';
+import { requireAdminToken } from './adminAuth';
+
+const router = Router();
+
+const STATUS_BY_CODE: Record<FeedbackError['code'] | GazetteerError['code'], number> = {
+    VALIDATION_ERROR: 400,
+    FEEDBACK_NOT_FOUND: 404,
+    ALREADY_REVIEWED: 409,
+    PLACE_NOT_FOUND: 404,
+    DUPLICATE_ID: 409,
+    DUPLICATE_VARIANT: 409,
+};
+
+const FEEDBACK_STATUSES: FeedbackStatus[] = ['pending', 'approved', 'rejected', 'ignored'];
+
+/**
+ * Map feedback / gazetteer errors to their HTTP status, anything else to a 500
+ */
+function sendError(res: Response, error: unknown) {
+    if (error instanceof FeedbackError || error instanceof GazetteerError) {
+        return res.status(STATUS_BY_CODE[error.code]).json({
+            error: error.code,
+            message: error.message,
+        });
+    }
+
+    console.error('[Feedback] Unexpected error:', error);
+    return res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: error instanceof Error ? error.message : 'Unknown error',
+    });
+}
+
+/**
+ * POST /api/feedback
+ *
+ * Record the rider-confirmed destination for a transcript.
+ * Body: { transcript, returnedPlaceId?, returnedMatchedBy?, confirmedPlaceId }
+ */
+router.post('/feedback', async (req: Request, res: Response) => {
+    try {
+        const feedback = await recordFeedback(req.body ?? {});
+        console.log(`[Feedback] Recorded ${feedback.id} (${feedback.status}): "${feedback.transcript}" → ${feedback.confirmedPlaceId}`);
+        return res.status(201).json({ feedback });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * GET /api/feedback?status=pending
+ *
+ * Review queue (defaults to pending entries)
+ */
+router.get('/feedback', requireAdminToken, (req: Request, res: Response) => {
+    const status = String(req.query.status || 'pending') as FeedbackStatus;
+    if (!FEEDBACK_STATUSES.includes(status)) {
+        return res.status(400).json({
+            error: 'VALIDATION_ERROR',
+            message: `"status" must be one of ${FEEDBACK_STATUSES.join(', ')}`,
+        });
+    }
+    return res.json({ feedback: listFeedback(status) });
+});
+
+/**
+ * POST /api/feedback/:id/approve
+ *
+ * Promote the transcript's destination phrase (or a reviewer-edited `variant` from
+ * the body) into the confirmed place's variants
+ */
+router.post('/feedback/:id/approve', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const variant = req.body?.variant;
+        if (variant !== undefined && typeof variant !== 'string') {
+            throw new FeedbackError('VALIDATION_ERROR', '"variant" must be a string');
+        }
+        const feedback = await approveFeedback(String(req.params.id), variant);
+        return res.json({ feedback });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * POST /api/feedback/:id/reject
+ */
+router.post('/feedback/:id/reject', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const feedback = await rejectFeedback(String(req.params.id));
+        return res.json({ feedback });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+export default router;
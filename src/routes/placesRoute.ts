@@ -0,0 +1,177 @@
+import { Router, Request, Response } from 'express';
+import {
+    getPlaces,
+    getPlace,
+    getGazetteerVersion,
+    createPlace,
+    updatePlace,
+    deletePlace,
+    addVariants,
+    removeVariant,
+    reloadGazetteer,
+    GazetteerError,
+} from '../core/gazetteer';
+import { requireAdminToken } from './adminAuth';
+
+const router = Router();
+
+const STATUS_BY_CODE: Record<GazetteerError['code'], number> = {
+    VALIDATION_ERROR: 400,
+    PLACE_NOT_FOUND: 404,
+    DUPLICATE_ID: 409,
+    DUPLICATE_VARIANT: 409,
+};
+
+/**
+ * Map gazetteer errors to their HTTP status, anything else to a 500
+ */
+function sendError(res: Response, error: unknown) {
+    if (error instanceof GazetteerError) {
+        return res.status(STATUS_BY_CODE[error.code]).json({
+            error: error.code,
+            message: error.message,
+        });
+    }
+
+    console.error('[Places] Unexpected error:', error);
+    return res.status(500).json({
+        error: 'INTERNAL_ERROR',
+        message: 'An unexpected error occurred',
+        details: error instanceof Error ? error.message : 'Unknown error',
+    });
+}
+
+function parseId(req: Request): number {
+    const id = Number(req.params.id);
+    if (!Number.isInteger(id) || id <= 0) {
+        throw new GazetteerError('VALIDATION_ERROR', 'Place id must be a positive integer');
+    }
+    return id;
+}
+
+/**
+ * GET /api/places
+ *
+ * List all places in the gazetteer. Each place: { id, canonicalName, category,
+ * parentId, polygon, variants, lat, lon }, where category is one of PLACE_CATEGORIES,
+ * parentId the enclosing district (null if unknown or a district) and polygon the
+ * outline as [lat, lon] vertices (districts, null otherwise)
+ */
+router.get('/places', (_req: Request, res: Response) => {
+    return res.json({ version: getGazetteerVersion(), places: getPlaces() });
+});
+
+/**
+ * GET /api/places/:id
+ */
+router.get('/places/:id', (req: Request, res: Response) => {
+    try {
+        const id = parseId(req);
+        const place = getPlace(id);
+        if (!place) {
+            throw new GazetteerError('PLACE_NOT_FOUND', `Place ${id} does not exist`);
+        }
+        return res.json({ place });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * POST /api/places
+ *
+ * Create a place. Body: { id?, canonicalName, category?, parentId?, polygon?, variants?, lat, lon }
+ * - category: one of PLACE_CATEGORIES, 'other' by default
+ * - parentId: id of an existing district containing the place
+ * - polygon: at least 3 [lat, lon] vertices within Nouakchott (districts)
+ */
+router.post('/places', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const place = await createPlace(req.body ?? {});
+        console.log(`[Places] Created place ${place.id} (${place.canonicalName})`);
+        return res.status(201).json({ place });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * PATCH /api/places/:id
+ *
+ * Update a place. Body: any of { canonicalName, category, parentId, polygon, variants, lat, lon }
+ * (variants replaces the list; parentId and polygon accept null to clear them).
+ * A district cannot change category while other places name it as their parent.
+ */
+router.patch('/places/:id', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const place = await updatePlace(parseId(req), req.body ?? {});
+        console.log(`[Places] Updated place ${place.id} (${place.canonicalName})`);
+        return res.json({ place });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * DELETE /api/places/:id
+ */
+router.delete('/places/:id', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const place = await deletePlace(parseId(req));
+        console.log(`[Places] Deleted place ${place.id} (${place.canonicalName})`);
+        return res.json({ place });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * POST /api/places/:id/variants
+ *
+ * Add variant spellings. Body: { variants: ["...", "..."] }
+ */
+router.post('/places/:id/variants', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const variants = req.body?.variants;
+        if (!Array.isArray(variants)) {
+            throw new GazetteerError('VALIDATION_ERROR', '"variants" must be an array of strings');
+        }
+        const place = await addVariants(parseId(req), variants);
+        console.log(`[Places] Added variants to place ${place.id} (${place.canonicalName})`);
+        return res.json({ place });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * DELETE /api/places/:id/variants/:variant
+ *
+ * Remove a variant spelling (compared after normalization)
+ */
+router.delete('/places/:id/variants/:variant', requireAdminToken, async (req: Request, res: Response) => {
+    try {
+        const place = await removeVariant(parseId(req), String(req.params.variant || ''));
+        console.log(`[Places] Removed variant from place ${place.id} (${place.canonicalName})`);
+        return res.json({ place });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+/**
+ * POST /api/places/reload
+ *
+ * Re-read the gazetteer file from disk (after manual edits)
+ */
+router.post('/places/reload', requireAdminToken, async (_req: Request, res: Response) => {
+    try {
+        const places = await reloadGazetteer();
+        console.log(`[Places] Reloaded gazetteer (${places.length} places)`);
+        return res.json({ version: getGazetteerVersion(), count: places.length });
+    } catch (error) {
+        return sendError(res, error);
+    }
+});
+
+export default router;
@@ -0,0 +1,63 @@
+import { Router, Request, Response } from 'express';
+import { getPlaces } from '../core/gazetteer';
+import { parseGeoPoint } from '../core/geo';
+import { reverseGeocode } from '../core/reverseGeocoder';
+
+const router = Router();
+
+const MAX_LIMIT = 20;
+const MAX_RADIUS_KM = 10;
+
+/**
+ * Parse an optional numeric query parameter; undefined when absent, NaN when invalid
+ */
+function numberParam(value: unknown): number | undefined {
+    if (value === undefined || value === '') {
+        return undefined;
+    }
+    return typeof value === 'string' ? Number(value) : NaN;
+}
+
+/**
+ * GET /api/reverse-geocode?lat=&lon=[&limit=5][&radiusKm=2]
+ *
+ * District and nearest named places for a GPS position, from the gazetteer only
+ */
+router.get('/reverse-geocode', (req: Request, res: Response) => {
+    try {
+        const point = parseGeoPoint(req.query.lat, req.query.lon);
+        if (!point) {
+            return res.status(400).json({
+                error: 'INVALID_LOCATION',
+                message: '"lat" and "lon" query parameters must both be valid coordinates.',
+            });
+        }
+
+        const limit = numberParam(req.query.limit);
+        if (limit !== undefined && (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT)) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: `"limit" must be an integer between 1 and ${MAX_LIMIT}.`,
+            });
+        }
+
+        const radiusKm = numberParam(req.query.radiusKm);
+        if (radiusKm !== undefined && (!Number.isFinite(radiusKm) || radiusKm <= 0 || radiusKm > MAX_RADIUS_KM)) {
+            return res.status(400).json({
+                error: 'VALIDATION_ERROR',
+                message: `"radiusKm" must be a number greater than 0 and at most ${MAX_RADIUS_KM}.`,
+            });
+        }
+
+        return res.json(reverseGeocode(point, getPlaces(), { limit, radiusKm }));
+    } catch (error) {
+        console.error('[ReverseGeocode] Unexpected error:', error);
+        return res.status(500).json({
+            error: 'INTERNAL_ERROR',
+            message: 'An unexpected error occurred',
+            details: error instanceof Error ? error.message : 'Unknown error',
+        });
+    }
+});
+
+export default router;
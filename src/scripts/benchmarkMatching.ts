@@ -0,0 +1,190 @@
+/**
+ * Benchmark for the fuzzy matching index
+ *
+ * 1. Checks that indexed ranking returns exactly the same candidates as an exhaustive
+ *    scan of the current gazetteer, over every variant (as-is, inside a sentence and
+ *    with a typo). The gazetteer is usually below FILTER_MIN_VARIANTS, where the index
+ *    scores every variant, so the same queries are run again with n-gram filtering
+ *    forced on: it may drop weak candidates, but must keep the same top match.
+ * 2. Measures ranking latency over a synthetic gazetteer (the real places plus
+ *    generated ones), indexed vs exhaustive, and how often both agree on the top match.
+ *
+ * Usage:
+ *   npm run benchmark -- [--places 10000] [--queries 200] [--reference-queries 3]
+ */
+import { rankCandidates, Place } from '../core/destinationMatcher';
+import { initGazetteer, getPlaces } from '../core/gazetteer';
+import { getMatchIndex } from '../core/matchIndex';
+import { loadSubstitutionCosts } from '../core/substitutionCosts';
+
+interface CliOptions {
+    places: number;
+    queries: number;
+    referenceQueries: number;
+}
+
+const SYLLABLES = ['تو', 'جن', 'ين', 'كا', 'رم', 'سب', 'خة', 'دار', 'نعيم', 'زي', 'نة', 'بو', 'حي', 'ال', 'مر', 'صا', 'قو', 'لي', 'فا', 'طه'];
+const CATEGORIES = ['مطعم', 'صيدلية', 'مسجد', 'بقالة', 'مدرسة', 'كراج', 'فندق', 'مصحة'];
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = { places: 10000, queries: 200, referenceQueries: 3 };
+    const flags: Record<string, keyof CliOptions> = {
+        '--places': 'places',
+        '--queries': 'queries',
+        '--reference-queries': 'referenceQueries',
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const key = flags[argv[i]];
+        if (!key) {
+            throw new Error(`Unknown argument: ${argv[i]}`);
+        }
+        const value = parseInt(argv[i + 1], 10);
+        if (!Number.isInteger(value) || value < 0) {
+            throw new Error(`${argv[i]} needs a non-negative integer`);
+        }
+        options[key] = value;
+        i++;
+    }
+
+    return options;
+}
+
+/**
+ * Small seeded PRNG (mulberry32) so runs are comparable
+ */
+function createRandom(seed: number): () => number {
+    let state = seed;
+    return () => {
+        state = (state + 0x6D2B79F5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function pick<T>(random: () => number, items: T[]): T {
+    return items[Math.floor(random() * items.length)];
+}
+
+function syntheticPlaces(base: Place[], total: number, random: () => number): Place[] {
+    const places = [...base];
+    let nextId = Math.max(0, ...base.map(p => p.id)) + 1;
+
+    while (places.length < total) {
+        const name = Array.from({ length: 2 + Math.floor(random() * 2) }, () => pick(random, SYLLABLES)).join('');
+        const category = pick(random, CATEGORIES);
+        places.push({
+            id: nextId++,
+            canonicalName: `${category} ${name}`,
+            variants: [`${category} ${name}`, name],
+            lat: 18.08 + random() * 0.1,
+            lon: -15.98 + random() * 0.1,
+        });
+    }
+
+    return places;
+}
+
+/**
+ * Queries derived from each variant: as-is, inside a request, and with one letter dropped
+ */
+function variantQueries(places: Place[]): string[] {
+    const queries: string[] = [];
+    for (const place of places) {
+        for (const variant of place.variants) {
+            const middle = Math.floor(variant.length / 2);
+            queries.push(variant, `نبغي نمشي ${variant}`, variant.slice(0, middle) + variant.slice(middle + 1));
+        }
+    }
+    return queries;
+}
+
+function sameRanking(a: ReturnType<typeof rankCandidates>, b: ReturnType<typeof rankCandidates>): boolean {
+    return a.length === b.length && a.every((match, i) =>
+        match.place.id === b[i].place.id &&
+        match.matchedVariant === b[i].matchedVariant &&
+        match.confidence === b[i].confidence &&
+        match.matchedBy === b[i].matchedBy
+    );
+}
+
+function timeQueries(queries: string[], places: Place[], exhaustive: boolean): { ms: number; topIds: Array<number | null> } {
+    const topIds: Array<number | null> = [];
+    const started = process.hrtime.bigint();
+    for (const query of queries) {
+        topIds.push(rankCandidates(query, places, 5, { exhaustive })[0]?.place.id ?? null);
+    }
+    const ms = Number(process.hrtime.bigint() - started) / 1e6 / Math.max(1, queries.length);
+    return { ms, topIds };
+}
+
+async function main(): Promise<void> {
+    const options = parseArgs(process.argv.slice(2));
+
+    await initGazetteer();
+    await loadSubstitutionCosts();
+    const places = getPlaces();
+
+    // 1. Equivalence on the current gazetteer
+    const queries = variantQueries(places);
+    const references = queries.map(query => rankCandidates(query, places, 5, { exhaustive: true }));
+    let mismatches = 0;
+    queries.forEach((query, i) => {
+        const indexed = rankCandidates(query, places, 5);
+        const reference = references[i];
+        if (!sameRanking(indexed, reference)) {
+            mismatches++;
+            if (mismatches <= 10) {
+                console.log(`[Benchmark] Mismatch for "${query}": ` +
+                    `${indexed.map(m => m.place.id).join(',')} vs ${reference.map(m => m.place.id).join(',')}`);
+            }
+        }
+    });
+    console.log(`[Benchmark] Current gazetteer: ${places.length} places, ${queries.length} queries, ${mismatches} mismatches`);
+
+    // Same queries with filtering on (a copy of the list, so it gets its own index)
+    const filteredPlaces = [...places];
+    getMatchIndex(filteredPlaces, { filterMinVariants: 0 });
+    let topMismatches = 0;
+    queries.forEach((query, i) => {
+        const [filtered] = rankCandidates(query, filteredPlaces, 5);
+        const [reference] = references[i];
+        if (filtered?.place.id !== reference?.place.id || filtered?.confidence !== reference?.confidence) {
+            topMismatches++;
+            if (topMismatches <= 10) {
+                console.log(`[Benchmark] Filtered top match differs for "${query}": ` +
+                    `${filtered?.place.id ?? '-'} vs ${reference?.place.id ?? '-'}`);
+            }
+        }
+    });
+    console.log(`[Benchmark] Filtered index: ${queries.length} queries, ${topMismatches} top-match mismatches`);
+
+    // 2. Latency at scale
+    const random = createRandom(42);
+    const scaled = syntheticPlaces(places, options.places, random);
+    const started = Date.now();
+    getMatchIndex(scaled);
+    const buildMs = Date.now() - started;
+
+    const sample = Array.from({ length: options.queries }, () => pick(random, queries));
+    const indexed = timeQueries(sample, scaled, false);
+    const reference = timeQueries(sample.slice(0, options.referenceQueries), scaled, true);
+
+    console.log(`[Benchmark] Synthetic gazetteer: ${scaled.length} places (index built in ${buildMs}ms)`);
+    console.log(`[Benchmark]   indexed:    ${indexed.ms.toFixed(1)}ms/query over ${sample.length} queries`);
+    if (reference.topIds.length > 0) {
+        const agreeing = reference.topIds.filter((id, i) => id === indexed.topIds[i]).length;
+        console.log(`[Benchmark]   exhaustive: ${reference.ms.toFixed(1)}ms/query over ${reference.topIds.length} queries ` +
+            `(same top match for ${agreeing}/${reference.topIds.length})`);
+    }
+
+    if (mismatches > 0 || topMismatches > 0) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('[Benchmark] Failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,7 @@
+/**
+ * Environment for the check scripts; import it before anything that loads config/env
+ *
+ * The checks match text only and never transcribe, so they select the local ASR
+ * backend and run without OPENAI_API_KEY, whatever .env says.
+ */
+process.env.ASR_BACKEND = 'local';
@@ -0,0 +1,81 @@
+/**
+ * Check that a geocoder outage is not cached as a no-match answer
+ *
+ * Starts a mock geocoder that fails its first search and answers the next ones, then
+ * resolves the same unknown destination twice with the match cache on: the first
+ * request must fail over to no match, the second must reach the geocoder again and
+ * get its place. Exits non-zero on any failure.
+ *
+ * Usage:
+ *   npm run check-geocoder-outage
+ */
+import './checkEnv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import http from 'http';
+import { AddressInfo } from 'net';
+
+const QUERY = 'نبغي نمشي كزفو بلمكج';
+const MOCK_PLACE = { id: 'outage-check', name: 'Outage check place', lat: 18.09, lon: -15.97 };
+
+async function main(): Promise<void> {
+    let searches = 0;
+    const server = http.createServer((_req, res) => {
+        searches++;
+        if (searches === 1) {
+            res.writeHead(503).end();
+            return;
+        }
+        res.writeHead(200, { 'Content-Type': 'application/json' }).end(JSON.stringify({ results: [MOCK_PLACE] }));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    const { port } = server.address() as AddressInfo;
+
+    const dataDir = fs.mkdtempSync(path.join(os.tmpdir(), 'geocoder-outage-'));
+    process.env.DATA_DIR = dataDir;
+    process.env.MOCK_GEOCODER_URL = `http://127.0.0.1:${port}/search`;
+    process.env.GEOCODER_PROVIDERS = 'mock';
+    process.env.MATCH_STAGES = 'fuzzy,geocoder';
+    process.env.CACHE_ENABLED = 'true';
+    process.env.CACHE_PERSIST = 'false';
+
+    // Loaded after the environment is set, as config/env reads it on import
+    const { initGazetteer } = await import('../core/gazetteer');
+    const { initExternalPlaceStore, flushExternalPlaceStore } = await import('../core/externalPlaceStore');
+    const { buildDestinationResponse } = await import('../routes/destinationResponse');
+
+    const failures: string[] = [];
+    try {
+        await initGazetteer();
+        await initExternalPlaceStore();
+
+        const outage = await buildDestinationResponse(QUERY);
+        if (outage.destination !== null) {
+            failures.push(`during the outage: expected no match, got ${outage.destination.canonicalName}`);
+        }
+
+        const retry = await buildDestinationResponse(QUERY);
+        if (searches !== 2) {
+            failures.push(`after the outage: expected a second geocoder search, got ${searches} search(es) in total`);
+        }
+        if (retry.destination?.canonicalName !== MOCK_PLACE.name) {
+            failures.push(`after the outage: expected ${MOCK_PLACE.name}, got ${retry.destination?.canonicalName ?? 'no match'}`);
+        }
+        await flushExternalPlaceStore();
+    } finally {
+        server.close();
+        fs.rmSync(dataDir, { recursive: true, force: true });
+    }
+
+    failures.forEach(failure => console.log(`[Check] ${failure}`));
+    console.log(`[Check] Geocoder outage: ${failures.length} failures`);
+    if (failures.length) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('[Check] Failed:', error);
+    process.exit(1);
+});
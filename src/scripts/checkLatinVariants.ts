@@ -0,0 +1,52 @@
+/**
+ * Check of the Latin variants in the seed gazetteer (src/data/places.json)
+ *
+ * Every Latin variant must resolve, on its own and fuzzy-only, to the place that lists
+ * it; catches variants too short to match ("HA") or that another place's variant wins
+ * over. Exits non-zero on any failure. Variants whose phonetic key is too short for
+ * phonetic matching (MIN_PHONETIC_KEY_LENGTH) are listed, as they only match by text.
+ *
+ * Usage:
+ *   npm run check-latin
+ */
+import './checkEnv';
+import { resolveDestination, Place } from '../core/destinationMatcher';
+import { hasLatin, phoneticKey, MIN_PHONETIC_KEY_LENGTH } from '../core/transliteration';
+import seedPlaces from '../data/places.json';
+
+async function main(): Promise<void> {
+    const places = seedPlaces as Place[];
+    let checked = 0;
+    const failures: string[] = [];
+    const shortKeys: string[] = [];
+
+    for (const place of places) {
+        for (const variant of place.variants.filter(hasLatin)) {
+            checked++;
+            const key = phoneticKey(variant);
+            if (key.length < MIN_PHONETIC_KEY_LENGTH) {
+                shortKeys.push(`"${variant}" (${place.id}): "${key}"`);
+            }
+
+            const { match } = await resolveDestination(variant, places, { fuzzyOnly: true });
+            if (match?.place.id !== place.id) {
+                const got = match ? `${match.place.canonicalName} (${match.place.id}) via "${match.matchedVariant}"` : 'no match';
+                failures.push(`"${variant}" (${place.id}): resolved to ${got}`);
+            }
+        }
+    }
+
+    if (shortKeys.length) {
+        console.log(`[Check] Phonetic key shorter than ${MIN_PHONETIC_KEY_LENGTH}, matched by text only: ${shortKeys.join(', ')}`);
+    }
+    failures.forEach(failure => console.log(`[Check] ${failure}`));
+    console.log(`[Check] ${checked} Latin variants, ${shortKeys.length} with short phonetic keys, ${failures.length} failures`);
+    if (failures.length) {
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('[Check] Failed:', error);
+    process.exit(1);
+});
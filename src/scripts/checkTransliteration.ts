@@ -0,0 +1,69 @@
+/**
+ * Check of the cross-script phonetic keys (src/core/transliteration.ts)
+ *
+ * Latin and Arabic spellings of the same name must share a key, and the French
+ * spelling rules (digraphs, soft c / g, accents, articles) must map to the expected
+ * consonant classes. Exits non-zero on any failure.
+ *
+ * Usage:
+ *   npm run check-transliteration
+ */
+import './checkEnv';
+import { phoneticKey, hasArabic, hasLatin } from '../core/transliteration';
+
+// Spellings that must produce the same key
+const SAME_KEY: Array<[string, string]> = [
+    ['toujounine', 'توجنين'],
+    ['tevragh zeina', 'تفرغ زينة'],
+    ['sebkha', 'السبخة'],
+    ['el mina', 'الميناء'],
+];
+
+// Spelling → expected key
+const KEYS: Array<[string, string]> = [
+    ['toujounine', 'TJN'], // Runs of one class collapse, vowels drop
+    ['sebkha', 'SBX'], // "kh" digraph
+    ['Tchad', 'CD'], // "tch" before "ch"
+    ['Centre', 'SNTR'], // Soft c before e
+    ['gendarmerie', 'JNDRMR'], // Soft g before e
+    ['Cinquième', 'SNKM'], // Accent stripped, "qu" digraph
+    ['Hôpital', 'HBTL'], // p and b share a class
+    ["l'americain", 'MRKN'], // Elided article
+    ['el mina', 'MN'], // Standalone article
+    ['السبخة', 'SBX'], // Definite article and final ه dropped
+];
+
+function main(): void {
+    const failures: string[] = [];
+    let checked = 0;
+    const expect = (ok: boolean, description: string) => {
+        checked++;
+        if (!ok) {
+            failures.push(description);
+        }
+    };
+
+    for (const [latin, arabic] of SAME_KEY) {
+        const latinKey = phoneticKey(latin);
+        const arabicKey = phoneticKey(arabic);
+        expect(latinKey === arabicKey, `"${latin}" (${latinKey}) and "${arabic}" (${arabicKey}) should share a key`);
+    }
+    for (const [text, key] of KEYS) {
+        const actual = phoneticKey(text);
+        expect(actual === key, `"${text}": expected ${key}, got ${actual}`);
+    }
+    expect(phoneticKey('') === '', 'empty text should have an empty key');
+
+    expect(hasArabic('nouakchott توجنين'), 'hasArabic should find Arabic in mixed text');
+    expect(!hasArabic('toujounine'), 'hasArabic should be false for Latin text');
+    expect(hasLatin('Ksar'), 'hasLatin should find Latin letters');
+    expect(!hasLatin('توجنين 12'), 'hasLatin should be false for Arabic text and digits');
+
+    failures.forEach(failure => console.log(`[Check] ${failure}`));
+    console.log(`[Check] ${checked} transliteration checks, ${failures.length} failures`);
+    if (failures.length) {
+        process.exitCode = 1;
+    }
+}
+
+main();
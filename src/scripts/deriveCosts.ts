@@ -0,0 +1,107 @@
+/**
+ * Derive substitution costs for the weighted edit distance from logged misrecognitions
+ *
+ * Uses rider feedback (pending and approved entries): for each transcript, the span
+ * closest to one of the confirmed place's variants is aligned with that variant, and
+ * frequent substitutions / insertions / deletions get cheaper costs.
+ *
+ * Usage:
+ *   npm run derive-costs -- [--out data/substitution-costs.json] [--min-count 2]
+ */
+import { config } from '../config/env';
+import { initGazetteer, getPlace } from '../core/gazetteer';
+import { initFeedbackStore, listFeedback } from '../core/feedbackStore';
+import { normalizeText, generateNGrams, foldText } from '../core/normalization';
+import { similarity } from '../core/similarity';
+import { deriveSubstitutionCosts, SubstitutionCostFile } from '../core/substitutionCosts';
+import { writeJsonFileAtomic } from '../core/jsonFileStore';
+
+function parseArgs(argv: string[]): { outPath: string; minCount: number } {
+    let outPath = config.substitutionCostsPath;
+    let minCount = 2;
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const value = argv[i + 1];
+        if ((arg === '--out' || arg === '--min-count') && value === undefined) {
+            throw new Error(`Missing value for ${arg}`);
+        }
+        if (arg === '--out') {
+            outPath = value;
+            i++;
+        } else if (arg === '--min-count') {
+            minCount = parseInt(value, 10);
+            i++;
+        } else {
+            throw new Error(`Unknown argument: ${arg}`);
+        }
+    }
+
+    return { outPath, minCount };
+}
+
+/**
+ * Drop costs for characters that normalization folds away (ة → ه, ى → ي, case…):
+ * matching only compares normalized text, so such entries can never apply
+ */
+function withoutFoldedCharacters(costs: SubstitutionCostFile): { costs: SubstitutionCostFile; skipped: string[] } {
+    const skipped: string[] = [];
+    const keep = (table: Record<string, number>) => Object.fromEntries(
+        Object.entries(table).filter(([key]) => {
+            const folded = key.split('|').some(ch => foldText(ch) !== ch);
+            if (folded) {
+                skipped.push(key);
+            }
+            return !folded;
+        })
+    );
+    return { costs: { substitutions: keep(costs.substitutions), indels: keep(costs.indels) }, skipped };
+}
+
+async function main(): Promise<void> {
+    const { outPath, minCount } = parseArgs(process.argv.slice(2));
+
+    await initGazetteer();
+    await initFeedbackStore();
+
+    const entries = [...listFeedback('pending'), ...listFeedback('approved')];
+    const pairs: Array<{ heard: string; expected: string }> = [];
+
+    for (const entry of entries) {
+        const place = getPlace(entry.confirmedPlaceId);
+        if (!place) {
+            continue;
+        }
+
+        // Pick the (span, variant) pair that best explains what was heard
+        const tokens = entry.normalizedTranscript.split(/\s+/).filter(Boolean);
+        let best: { heard: string; expected: string; score: number } | null = null;
+        for (const span of generateNGrams(tokens, 4)) {
+            for (const variant of place.variants) {
+                const expected = normalizeText(variant);
+                const score = similarity(span, expected);
+                if (!best || score > best.score) {
+                    best = { heard: span, expected, score };
+                }
+            }
+        }
+
+        if (best && best.heard !== best.expected) {
+            pairs.push({ heard: best.heard, expected: best.expected });
+        }
+    }
+
+    const { costs, skipped } = withoutFoldedCharacters(deriveSubstitutionCosts(pairs, minCount));
+    if (skipped.length) {
+        console.log(`[Costs] Skipped entries for characters removed by normalization: ${skipped.join(', ')}`);
+    }
+    await writeJsonFileAtomic(outPath, costs);
+
+    console.log(`[Costs] Derived costs from ${pairs.length} misrecognitions (${entries.length} feedback entries)`);
+    console.log(`[Costs] Written to ${outPath}`);
+}
+
+main().catch((error) => {
+    console.error('[Costs] Failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,427 @@
+/**
+ * Evaluation harness for the transcription + matching pipeline
+ *
+ * Runs ASR (or cached / manifest transcripts) and resolveTrip, as the destination
+ * endpoints do (origin and multi-stop parsing, spatial relations, location prior), over
+ * a labelled manifest, then writes JSON and Markdown reports with top-1/top-3 accuracy,
+ * per-stage hit rates, confusion pairs and latency. The match cache is not used.
+ *
+ * Usage:
+ *   npm run eval -- [--manifest clips/manifest.json] [--out eval-reports]
+ *                   [--cache clips/transcripts.cache.json] [--no-asr] [--min-top1 0.8]
+ *                   [--fuzzy-only] [--skip-geocoder]
+ *
+ * Manifest format (paths are relative to the manifest file; lat/lon is the rider's
+ * optional position, as sent to the endpoints):
+ *   [{ "audio": "toujounin.wav", "expectedPlaceId": 1 },
+ *    { "transcript": "نبغي نمشي تيارت", "expectedPlaceId": 2, "lat": 18.09, "lon": -15.97 },
+ *    { "audio": "awjeft1.wav", "expectedPlaceId": null }]
+ *
+ * `expectedPlaceId: null` marks a destination that is not in the gazetteer; such an
+ * entry counts as correct when no gazetteer place is returned. The expected place is
+ * the trip's destination (its last stop).
+ */
+import path from 'path';
+import crypto from 'crypto';
+import { promises as fs } from 'fs';
+import { transcribeAudio } from '../core/asr';
+import { preprocessAudio } from '../core/audioPreprocessor';
+import { Place } from '../core/destinationMatcher';
+import { resolveTrip } from '../core/tripParser';
+import { parseGeoPoint } from '../core/geo';
+import { initGazetteer, getPlaces } from '../core/gazetteer';
+import { readJsonFile } from '../core/jsonFileStore';
+import { loadSubstitutionCosts } from '../core/substitutionCosts';
+
+interface ManifestEntry {
+    audio?: string;
+    transcript?: string;
+    expectedPlaceId: number | null;
+    label?: string;
+    lat?: number;
+    lon?: number;
+}
+
+interface CliOptions {
+    manifestPath: string;
+    outDir: string;
+    cachePath: string | null;
+    useAsr: boolean;
+    minTop1: number | null;
+    fuzzyOnly: boolean; // No LLM or geocoder calls
+    skipGeocoder: boolean;
+}
+
+type TranscriptCache = Record<string, { sha256: string; transcript: string }>;
+
+interface EvalResult {
+    key: string;
+    label: string | null;
+    expectedPlaceId: number | null;
+    expectedName: string | null;
+    transcript: string | null;
+    transcriptSource: 'manifest' | 'cache' | 'asr' | null;
+    predictedPlaceId: number | null; // -1 for external (Google Maps) places
+    predictedName: string | null;
+    matchedBy: string | null;
+    confidence: number | null;
+    candidateIds: number[];
+    top1Correct: boolean;
+    top3Correct: boolean;
+    asrMs: number | null;
+    matchMs: number | null;
+    error: string | null;
+}
+
+interface LatencyStats {
+    count: number;
+    mean: number;
+    p50: number;
+    p95: number;
+}
+
+interface EvalSummary {
+    total: number;
+    evaluated: number;
+    errors: number;
+    top1Accuracy: number;
+    top3Accuracy: number;
+    stages: Record<string, { hits: number; correct: number; hitRate: number }>;
+    confusions: Array<{ expected: string; predicted: string; count: number }>;
+    latency: { asr: LatencyStats; match: LatencyStats };
+}
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        manifestPath: 'clips/manifest.json',
+        outDir: 'eval-reports',
+        cachePath: null,
+        useAsr: true,
+        minTop1: null,
+        fuzzyOnly: false,
+        skipGeocoder: false,
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const arg = argv[i];
+        const next = () => {
+            const value = argv[++i];
+            if (value === undefined) {
+                throw new Error(`Missing value for ${arg}`);
+            }
+            return value;
+        };
+
+        switch (arg) {
+            case '--manifest':
+                options.manifestPath = next();
+                break;
+            case '--out':
+                options.outDir = next();
+                break;
+            case '--cache':
+                options.cachePath = next();
+                break;
+            case '--no-asr':
+                options.useAsr = false;
+                break;
+            case '--min-top1':
+                options.minTop1 = parseFloat(next());
+                break;
+            case '--fuzzy-only':
+                options.fuzzyOnly = true;
+                break;
+            case '--skip-geocoder':
+                options.skipGeocoder = true;
+                break;
+            default:
+                throw new Error(`Unknown argument: ${arg}`);
+        }
+    }
+
+    return options;
+}
+
+function latencyStats(values: number[]): LatencyStats {
+    if (values.length === 0) {
+        return { count: 0, mean: 0, p50: 0, p95: 0 };
+    }
+    const sorted = [...values].sort((a, b) => a - b);
+    const percentile = (p: number) => sorted[Math.min(sorted.length - 1, Math.ceil(p * sorted.length) - 1)];
+
+    return {
+        count: sorted.length,
+        mean: Math.round(sorted.reduce((sum, v) => sum + v, 0) / sorted.length),
+        p50: percentile(0.5),
+        p95: percentile(0.95),
+    };
+}
+
+/**
+ * Get the transcript for a manifest entry from the manifest, the cache or ASR
+ */
+async function getTranscript(
+    entry: ManifestEntry,
+    manifestDir: string,
+    cache: TranscriptCache,
+    options: CliOptions
+): Promise<{ transcript: string | null; source: EvalResult['transcriptSource']; asrMs: number | null }> {
+    if (entry.transcript) {
+        return { transcript: entry.transcript, source: 'manifest', asrMs: null };
+    }
+    if (!entry.audio) {
+        throw new Error('Manifest entry has neither "audio" nor "transcript"');
+    }
+
+    const buffer = await fs.readFile(path.resolve(manifestDir, entry.audio));
+    const sha256 = crypto.createHash('sha256').update(buffer).digest('hex');
+
+    const cached = cache[entry.audio];
+    if (cached && cached.sha256 === sha256) {
+        return { transcript: cached.transcript, source: 'cache', asrMs: null };
+    }
+    if (!options.useAsr) {
+        return { transcript: null, source: null, asrMs: null };
+    }
+
+    // Same preprocessing and transcript check as the audio endpoint (a NO_SPEECH or
+    // UNRELIABLE_TRANSCRIPT rejection becomes the entry's error)
+    const started = Date.now();
+    const audio = await preprocessAudio(buffer, 'application/octet-stream', entry.audio);
+    const { transcript: rawTranscript, check } = await transcribeAudio(audio.buffer, audio.mimeType, audio.filename);
+    const asrMs = Date.now() - started;
+    if (check.verdict === 'rejected') {
+        throw new Error(`UNRELIABLE_TRANSCRIPT: "${rawTranscript}" (${check.issues.map(issue => issue.code).join(', ')})`);
+    }
+    const transcript = check.text;
+
+    cache[entry.audio] = { sha256, transcript };
+    return { transcript, source: 'asr', asrMs };
+}
+
+async function evaluateEntry(
+    entry: ManifestEntry,
+    manifestDir: string,
+    cache: TranscriptCache,
+    places: Place[],
+    options: CliOptions
+): Promise<EvalResult> {
+    const expected = entry.expectedPlaceId === null
+        ? null
+        : places.find(p => p.id === entry.expectedPlaceId) ?? null;
+
+    const result: EvalResult = {
+        key: entry.audio ?? entry.transcript ?? '?',
+        label: entry.label ?? null,
+        expectedPlaceId: entry.expectedPlaceId,
+        expectedName: expected?.canonicalName ?? null,
+        transcript: null,
+        transcriptSource: null,
+        predictedPlaceId: null,
+        predictedName: null,
+        matchedBy: null,
+        confidence: null,
+        candidateIds: [],
+        top1Correct: false,
+        top3Correct: false,
+        asrMs: null,
+        matchMs: null,
+        error: null,
+    };
+
+    try {
+        const { transcript, source, asrMs } = await getTranscript(entry, manifestDir, cache, options);
+        result.transcript = transcript;
+        result.transcriptSource = source;
+        result.asrMs = asrMs;
+
+        if (transcript === null) {
+            result.error = 'No cached transcript and ASR disabled (--no-asr)';
+            return result;
+        }
+
+        const location = parseGeoPoint(entry.lat, entry.lon);
+        if (location === null) {
+            result.error = 'Invalid "lat" / "lon" in the manifest entry';
+            return result;
+        }
+
+        const started = Date.now();
+        const trip = await resolveTrip(transcript, places, {
+            fuzzyOnly: options.fuzzyOnly,
+            skipGeocoder: options.skipGeocoder,
+            location,
+        });
+        const { match, candidates } = trip.destination;
+        result.matchMs = Date.now() - started;
+
+        result.predictedPlaceId = match?.place.id ?? null;
+        result.predictedName = match?.place.canonicalName ?? null;
+        result.matchedBy = match?.matchedBy ?? null;
+        result.confidence = match?.confidence ?? null;
+        result.candidateIds = candidates.map(c => c.place.id);
+
+        if (entry.expectedPlaceId === null) {
+            // Out-of-gazetteer destination: correct when no local place was returned
+            result.top1Correct = result.predictedPlaceId === null || result.predictedPlaceId === -1;
+            result.top3Correct = result.top1Correct;
+        } else {
+            result.top1Correct = result.predictedPlaceId === entry.expectedPlaceId;
+            result.top3Correct = result.candidateIds.slice(0, 3).includes(entry.expectedPlaceId);
+        }
+    } catch (error) {
+        result.error = error instanceof Error ? error.message : 'Unknown error';
+    }
+
+    return result;
+}
+
+function summarize(results: EvalResult[]): EvalSummary {
+    const evaluated = results.filter(r => r.error === null);
+    const ratio = (n: number) => (evaluated.length > 0 ? n / evaluated.length : 0);
+
+    const stages: EvalSummary['stages'] = {};
+    for (const r of evaluated) {
+        const stage = r.matchedBy ?? 'none';
+        stages[stage] = stages[stage] ?? { hits: 0, correct: 0, hitRate: 0 };
+        stages[stage].hits++;
+        if (r.top1Correct) {
+            stages[stage].correct++;
+        }
+    }
+    for (const stage of Object.values(stages)) {
+        stage.hitRate = ratio(stage.hits);
+    }
+
+    const confusionCounts = new Map<string, { expected: string; predicted: string; count: number }>();
+    for (const r of evaluated.filter(r => !r.top1Correct)) {
+        const expected = r.expectedName ?? '(not in gazetteer)';
+        const predicted = r.predictedName ?? '(no match)';
+        const key = `${expected}\u0000${predicted}`;
+        const entry = confusionCounts.get(key) ?? { expected, predicted, count: 0 };
+        entry.count++;
+        confusionCounts.set(key, entry);
+    }
+
+    return {
+        total: results.length,
+        evaluated: evaluated.length,
+        errors: results.length - evaluated.length,
+        top1Accuracy: ratio(evaluated.filter(r => r.top1Correct).length),
+        top3Accuracy: ratio(evaluated.filter(r => r.top3Correct).length),
+        stages,
+        confusions: [...confusionCounts.values()].sort((a, b) => b.count - a.count),
+        latency: {
+            asr: latencyStats(results.flatMap(r => (r.asrMs === null ? [] : [r.asrMs]))),
+            match: latencyStats(results.flatMap(r => (r.matchMs === null ? [] : [r.matchMs]))),
+        },
+    };
+}
+
+function toMarkdown(summary: EvalSummary, results: EvalResult[], generatedAt: string): string {
+    const pct = (v: number) => `${(v * 100).toFixed(1)}%`;
+    const cell = (v: string | number | null) => String(v ?? '—').replace(/\|/g, '\\|');
+
+    const lines = [
+        '# Destination Pipeline Evaluation',
+        '',
+        `Generated at ${generatedAt}`,
+        '',
+        '## Summary',
+        '',
+        `- Entries: ${summary.total} (evaluated: ${summary.evaluated}, errors: ${summary.errors})`,
+        `- Top-1 accuracy: ${pct(summary.top1Accuracy)}`,
+        `- Top-3 accuracy: ${pct(summary.top3Accuracy)}`,
+        `- ASR latency (ms): mean ${summary.latency.asr.mean}, p50 ${summary.latency.asr.p50}, p95 ${summary.latency.asr.p95} (n=${summary.latency.asr.count})`,
+        `- Matching latency (ms): mean ${summary.latency.match.mean}, p50 ${summary.latency.match.p50}, p95 ${summary.latency.match.p95} (n=${summary.latency.match.count})`,
+        '',
+        '## Stages',
+        '',
+        '| Stage | Hits | Hit rate | Correct |',
+        '|-------|------|----------|---------|',
+        ...Object.entries(summary.stages).map(
+            ([stage, s]) => `| ${stage} | ${s.hits} | ${pct(s.hitRate)} | ${s.correct} |`
+        ),
+        '',
+        '## Confusions',
+        '',
+    ];
+
+    if (summary.confusions.length === 0) {
+        lines.push('None.');
+    } else {
+        lines.push('| Expected | Predicted | Count |', '|----------|-----------|-------|');
+        for (const c of summary.confusions) {
+            lines.push(`| ${cell(c.expected)} | ${cell(c.predicted)} | ${c.count} |`);
+        }
+    }
+
+    lines.push(
+        '',
+        '## Results',
+        '',
+        '| Entry | Transcript | Expected | Predicted | Stage | Confidence | Top-1 | Top-3 | Error |',
+        '|-------|------------|----------|-----------|-------|------------|-------|-------|-------|',
+        ...results.map(r =>
+            `| ${cell(r.key)} | ${cell(r.transcript)} | ${cell(r.expectedName ?? (r.expectedPlaceId === null ? '(not in gazetteer)' : r.expectedPlaceId))} | ${cell(r.predictedName)} | ${cell(r.matchedBy)} | ${r.confidence === null ? '—' : r.confidence.toFixed(2)} | ${r.top1Correct ? '✓' : '✗'} | ${r.top3Correct ? '✓' : '✗'} | ${cell(r.error)} |`
+        ),
+        ''
+    );
+
+    return lines.join('\n');
+}
+
+async function main(): Promise<void> {
+    const options = parseArgs(process.argv.slice(2));
+    const manifestDir = path.dirname(path.resolve(options.manifestPath));
+    const manifest = await readJsonFile<ManifestEntry[] | null>(options.manifestPath, null);
+    if (!Array.isArray(manifest)) {
+        throw new Error(`Manifest not found or not an array: ${options.manifestPath}`);
+    }
+
+    await initGazetteer();
+    await loadSubstitutionCosts();
+    const places = getPlaces();
+    const cache = options.cachePath
+        ? await readJsonFile<TranscriptCache>(options.cachePath, {})
+        : {};
+
+    const stages = options.fuzzyOnly ? ' (fuzzy only)' : options.skipGeocoder ? ' (geocoder skipped)' : '';
+    console.log(`[Eval] Evaluating ${manifest.length} entries from ${options.manifestPath}${stages}`);
+
+    // Run sequentially to keep ASR/LLM request rates and latency figures realistic
+    const results: EvalResult[] = [];
+    for (const entry of manifest) {
+        const result = await evaluateEntry(entry, manifestDir, cache, places, options);
+        console.log(
+            `[Eval] ${result.key}: ${result.error ? `ERROR ${result.error}` : `${result.predictedName ?? '(no match)'} via ${result.matchedBy ?? '-'} → ${result.top1Correct ? 'OK' : 'MISS'}`}`
+        );
+        results.push(result);
+    }
+
+    if (options.cachePath) {
+        await fs.writeFile(options.cachePath, JSON.stringify(cache, null, 2) + '\n');
+    }
+
+    const summary = summarize(results);
+    const generatedAt = new Date().toISOString();
+
+    await fs.mkdir(options.outDir, { recursive: true });
+    const jsonPath = path.join(options.outDir, 'evaluation.json');
+    const markdownPath = path.join(options.outDir, 'evaluation.md');
+    await fs.writeFile(jsonPath, JSON.stringify({ generatedAt, manifest: options.manifestPath, summary, results }, null, 2) + '\n');
+    await fs.writeFile(markdownPath, toMarkdown(summary, results, generatedAt));
+
+    console.log(`[Eval] Top-1: ${(summary.top1Accuracy * 100).toFixed(1)}%, Top-3: ${(summary.top3Accuracy * 100).toFixed(1)}%`);
+    console.log(`[Eval] Reports written to ${jsonPath} and ${markdownPath}`);
+
+    if (options.minTop1 !== null && summary.top1Accuracy < options.minTop1) {
+        console.error(`[Eval] Top-1 accuracy below --min-top1 ${options.minTop1}`);
+        process.exitCode = 1;
+    }
+}
+
+main().catch((error) => {
+    console.error('[Eval] Failed:', error);
+    process.exit(1);
+});
@@ -0,0 +1,99 @@
+/**
+ * Local stand-in for an external geocoder, answering the protocol of the `mock`
+ * provider (GEOCODER_PROVIDERS=mock) from a JSON fixture, so the geocoder fallback can
+ * be exercised without API keys or network access.
+ *
+ * The bundled fixture has a few places missing from the gazetteer, one of them
+ * outside Nouakchott (to see the bounding-box filter at work). Coordinates are
+ * approximate.
+ *
+ * Usage:
+ *   npm run mock-geocoder -- [--port 8090] [--fixtures src/data/mockGeocoderPlaces.json]
+ */
+import express from 'express';
+import path from 'path';
+import { promises as fs } from 'fs';
+import { normalizeText } from '../core/normalization';
+import { similarity } from '../core/similarity';
+
+interface MockPlace {
+    id: string;
+    name: string;
+    aliases?: string[];
+    lat: number;
+    lon: number;
+    address?: string;
+}
+
+interface CliOptions {
+    port: number;
+    fixtures: string;
+}
+
+// Names scoring at least this against the query (or containing it) are returned
+const MIN_SCORE = 0.7;
+
+function parseArgs(argv: string[]): CliOptions {
+    const options: CliOptions = {
+        port: 8090,
+        fixtures: path.join(__dirname, '..', 'data', 'mockGeocoderPlaces.json'),
+    };
+
+    for (let i = 0; i < argv.length; i++) {
+        const value = argv[i + 1];
+        if (argv[i] === '--port' && Number.isInteger(Number(value))) {
+            options.port = Number(value);
+        } else if (argv[i] === '--fixtures' && value) {
+            options.fixtures = path.resolve(value);
+        } else {
+            throw new Error(`Unknown or incomplete argument: ${argv[i]}`);
+        }
+        i++;
+    }
+
+    return options;
+}
+
+function score(query: string, place: MockPlace): number {
+    let best = 0;
+    for (const name of [place.name, ...(place.aliases ?? [])]) {
+        const normalized = normalizeText(name);
+        if (normalized.includes(query) || query.includes(normalized)) {
+            return 1;
+        }
+        best = Math.max(best, similarity(query, normalized));
+    }
+    return best;
+}
+
+async function main() {
+    const options = parseArgs(process.argv.slice(2));
+    const places = JSON.parse(await fs.readFile(options.fixtures, 'utf8')) as MockPlace[];
+
+    const app = express();
+    app.get('/search', (req, res) => {
+        const query = normalizeText(typeof req.query.q === 'string' ? req.query.q : '');
+        const limit = Number(req.query.limit) || 5;
+
+        const results = query
+            ? places
+                .map(place => ({ place, score: score(query, place) }))
+                .filter(entry => entry.score >= MIN_SCORE)
+                .sort((a, b) => b.score - a.score)
+                .slice(0, limit)
+                .map(({ place }) => ({ id: place.id, name: place.name, lat: place.lat, lon: place.lon, address: place.address }))
+            : [];
+
+        console.log(`[MockGeocoder] "${query}" → ${results.length} result(s)`);
+        res.json({ results });
+    });
+
+    app.listen(options.port, () => {
+        console.log(`[MockGeocoder] Serving ${places.length} places from ${options.fixtures} on http://127.0.0.1:${options.port}/search`);
+    });
+}
+
+main().catch((error) => {
+    console.error('[MockGeocoder] Failed:', error instanceof Error ? error.message : error);
+    process.exit(1);
+});
@@ -1,6 +1,19 @@
 import express from 'express';
 import { config } from './config/env';
 import destinationRoute from './routes/destinationRoute';
+import placesRoute from './routes/placesRoute';
+import feedbackRoute from './routes/feedbackRoute';
+import reverseGeocodeRoute from './routes/reverseGeocodeRoute';
+import externalPlacesRoute from './routes/externalPlacesRoute';
+import cacheRoute from './routes/cacheRoute';
+import { attachDestinationStream } from './routes/destinationStream';
+import { initGazetteer, getPlaces, onGazetteerChange } from './core/gazetteer';
+import { getMatchIndex } from './core/matchIndex';
+import { getSpatialIndex } from './core/reverseGeocoder';
+import { initFeedbackStore } from './core/feedbackStore';
+import { initExternalPlaceStore, flushExternalPlaceStore } from './core/externalPlaceStore';
+import { loadSubstitutionCosts } from './core/substitutionCosts';
+import { initResponseCaches, flushResponseCaches, purgeResponseCaches } from './core/responseCache';
 
 // Initialize Express app
 const app = express();
@@ -16,6 +29,11 @@ app.get('/health', (_req, res) => {
 
 // Mount API routes
 app.use('/api', destinationRoute);
+app.use('/api', placesRoute);
+app.use('/api', feedbackRoute);
+app.use('/api', reverseGeocodeRoute);
+app.use('/api', externalPlacesRoute);
+app.use('/api', cacheRoute);
 
 // 404 handler
 app.use((_req, res) => {
@@ -29,8 +47,26 @@ app.use((_req, res) => {
 const PORT = config.port;
 const HOST = '0.0.0.0';
 
-app.listen(PORT, HOST, () => {
-    console.log(`
+async function start() {
+    // Load the persistent stores before accepting requests
+    await initGazetteer();
+    await initFeedbackStore();
+    await initExternalPlaceStore();
+    await loadSubstitutionCosts();
+    await initResponseCaches();
+
+    // Build the matching and spatial indexes up front, and again whenever the gazetteer changes.
+    // Cached matches are keyed by gazetteer content, so stale ones could never hit; drop them.
+    getMatchIndex(getPlaces());
+    getSpatialIndex(getPlaces());
+    onGazetteerChange((places) => {
+        getMatchIndex(places);
+        getSpatialIndex(places);
+        purgeResponseCaches('match');
+    });
+
+    const server = app.listen(PORT, HOST, () => {
+        console.log(`
 ╔════════════════════════════════════════════════════════════╗
 ║  Hassaniya Arabic Destination Service                     ║
 ║  Server running on http://${HOST}:${PORT}                       ║
@@ -38,17 +74,34 @@ app.listen(PORT, HOST, () => {
 ║  Endpoints:                                                ║
 ║  - GET  /health                                            ║
 ║  - POST /api/destination-from-audio                        ║
+║  - POST /api/destination-from-text                         ║
+║  - POST /api/destination-from-text/batch                   ║
+║  - WS   /api/destination-stream                            ║
+║  - GET  /api/places (+ admin CRUD)                         ║
+║  - POST /api/feedback                                      ║
+║  - GET  /api/reverse-geocode                               ║
+║  - GET  /api/external-places (admin review)                ║
+║  - GET  /api/cache (admin stats / purge)                   ║
 ╚════════════════════════════════════════════════════════════╝
   `);
-});
+    });
 
-// Graceful shutdown
-process.on('SIGINT', () => {
-    console.log('\n[Server] Shutting down gracefully...');
-    process.exit(0);
+    // WebSocket upgrades share the HTTP server
+    attachDestinationStream(server);
+}
+
+start().catch((error) => {
+    console.error('[Server] Failed to start:', error);
+    process.exit(1);
 });
 
-process.on('SIGTERM', () => {
+// Graceful shutdown (persisted caches and candidate hit counts are written first)
+function shutdown() {
     console.log('\n[Server] Shutting down gracefully...');
-    process.exit(0);
-});
+    Promise.all([flushResponseCaches(), flushExternalPlaceStore()])
+        .catch(error => console.error('[Server] Failed to persist caches:', error))
+        .finally(() => process.exit(0));
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);